@@ -0,0 +1,60 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export interface AccessTokenClaims {
+  resourceId: string;
+  buyer: string;
+  paymentRequestId: string;
+  expiresAt: number;
+  // The intended use the resource was licensed for, if it has tiers
+  license?: string;
+}
+
+export type AccessTokenVerification =
+  { valid: true; claims: AccessTokenClaims } | { valid: false; reason: string };
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * Creates an access token of the form `<payload>.<signature>`, where the
+ * payload is the base64url-encoded claims and the signature is an
+ * HMAC-SHA256 over the payload.
+ */
+export function createAccessToken(
+  claims: AccessTokenClaims,
+  secret: string
+): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+export function verifyAccessToken(
+  token: string,
+  secret: string,
+  now = Date.now()
+): AccessTokenVerification {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) {
+    return { valid: false, reason: "Malformed access token" };
+  }
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: "Invalid access token signature" };
+  }
+
+  let claims: AccessTokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch {
+    return { valid: false, reason: "Malformed access token" };
+  }
+
+  if (typeof claims.expiresAt !== "number" || claims.expiresAt <= now) {
+    return { valid: false, reason: "Access token has expired" };
+  }
+
+  return { valid: true, claims };
+}
@@ -0,0 +1,29 @@
+import type { JwtString } from "agentcommercekit";
+import type { z } from "zod";
+
+/**
+ * The parts of the ACK-Lab agent SDK this demo relies on. Both the real
+ * `AckLabAgent` and the local mock in `mock-ack-lab.ts` provide it.
+ */
+export interface AckLabClient {
+  createPaymentRequest(params: {
+    id?: string;
+    amount: number;
+    description?: string;
+  }): Promise<{ url: string }>;
+
+  executePayment(paymentRequestToken: string): Promise<{ url: string }>;
+
+  verifyPaymentReceipt(receipt: string): Promise<{ paymentRequestId: string }>;
+
+  createAgentCaller<I extends z.ZodTypeAny, O extends z.ZodTypeAny>(
+    url: string,
+    inputSchema: I,
+    outputSchema: O
+  ): (input: z.infer<I>) => Promise<z.infer<O>>;
+
+  createRequestHandler<I extends z.ZodTypeAny, O>(
+    inputSchema: I,
+    handler: (input: z.infer<I>) => Promise<O>
+  ): (jwt: string) => Promise<{ jwt: JwtString }>;
+}
@@ -0,0 +1,315 @@
+import { Hono } from "hono";
+import { bearerAuth } from "hono/bearer-auth";
+import type { AuditTrail } from "./audit-trail";
+import { bundleName, parseBundleId } from "./bundles";
+import type { Catalogue } from "./catalogue";
+import type { DisputeDecision, DisputeDesk } from "./disputes";
+import type { CompletedTransaction, DataResource } from "./data-models";
+import { auditedTransition, isFinal } from "./negotiation-lifecycle";
+import type { NegotiationStore } from "./negotiation-store";
+import { isGrantActive, parseSubscriptionId } from "./subscriptions";
+
+interface AdminRoutesConfig {
+  apiToken: string;
+  catalogue: Catalogue;
+  negotiationStore: NegotiationStore;
+  auditTrail: AuditTrail;
+  disputeDesk: DisputeDesk;
+  defaultMaxRounds: number;
+}
+
+interface ResourceRevenue {
+  resourceId: string;
+  name?: string;
+  sales: number;
+  revenue: number;
+  averageDiscount?: number;
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Bundles and subscriptions are not catalogue entries, so they are named
+// after the resources they are for
+function resourceName(
+  resourceId: string,
+  catalogue: Catalogue
+): string | undefined {
+  const subscribedId = parseSubscriptionId(resourceId);
+  if (subscribedId) {
+    const name = resourceName(subscribedId, catalogue);
+    return name && `${name} (subscription)`;
+  }
+
+  const itemIds = parseBundleId(resourceId);
+  if (!itemIds) return catalogue.findById(resourceId)?.name;
+
+  const items = itemIds.map((itemId) => catalogue.findById(itemId));
+  return items.every(Boolean) ? bundleName(items as DataResource[]) : undefined;
+}
+
+// Discounts are relative to the list price for the purchased quantity
+function summarizeRevenue(
+  transactions: CompletedTransaction[],
+  catalogue: Catalogue
+): ResourceRevenue[] {
+  const byResource = new Map<string, CompletedTransaction[]>();
+  for (const transaction of transactions) {
+    byResource.set(transaction.resourceId, [
+      ...(byResource.get(transaction.resourceId) ?? []),
+      transaction,
+    ]);
+  }
+
+  return [...byResource].map(([resourceId, sales]) => {
+    const discounts = sales
+      .filter((t): t is CompletedTransaction & { listPrice: number } =>
+        Boolean(t.listPrice)
+      )
+      .map((t) => 1 - t.finalPrice / t.listPrice);
+
+    return {
+      resourceId,
+      name: resourceName(resourceId, catalogue),
+      sales: sales.length,
+      revenue: roundCents(sales.reduce((sum, t) => sum + t.finalPrice, 0)),
+      averageDiscount:
+        discounts.length > 0
+          ? Math.round(
+              (discounts.reduce((sum, d) => sum + d, 0) / discounts.length) *
+                1000
+            ) / 1000
+          : undefined,
+    };
+  });
+}
+
+async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Routes for running the seller: editing the catalogue, watching and
+ * cancelling negotiations, tracking subscriptions, resolving disputes and
+ * reporting sales. Every request needs the admin API token.
+ */
+export function createAdminRoutes({
+  apiToken,
+  catalogue,
+  negotiationStore,
+  auditTrail,
+  disputeDesk,
+  defaultMaxRounds,
+}: AdminRoutesConfig) {
+  const app = new Hono().basePath("/admin");
+
+  app.use("*", bearerAuth({ token: apiToken }));
+
+  app.get("/catalogue", (c) => {
+    return c.json({ resources: catalogue.getResources() });
+  });
+
+  // PUT replaces or adds a whole entry, PATCH changes some of its fields
+  app.put("/catalogue/:resourceId", async (c) => {
+    const body = await readJsonBody(c.req.raw);
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return c.json({ error: "Expected a JSON resource" }, 400);
+    }
+
+    const result = await catalogue.saveResource({
+      ...body,
+      id: c.req.param("resourceId"),
+    });
+    if (!result.saved) {
+      return c.json({ error: "Invalid resource", details: result.errors }, 400);
+    }
+    return c.json({ resource: catalogue.findById(c.req.param("resourceId")) });
+  });
+
+  app.patch("/catalogue/:resourceId", async (c) => {
+    const resourceId = c.req.param("resourceId");
+    const existing = catalogue.findById(resourceId);
+    if (!existing) return c.json({ error: "Resource not found" }, 404);
+
+    const body = await readJsonBody(c.req.raw);
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return c.json({ error: "Expected a JSON object of fields" }, 400);
+    }
+
+    const result = await catalogue.saveResource({
+      ...existing,
+      ...body,
+      id: resourceId,
+    });
+    if (!result.saved) {
+      return c.json({ error: "Invalid resource", details: result.errors }, 400);
+    }
+    return c.json({ resource: catalogue.findById(resourceId) });
+  });
+
+  app.delete("/catalogue/:resourceId", async (c) => {
+    const resourceId = c.req.param("resourceId");
+    if (!catalogue.findById(resourceId)) {
+      return c.json({ error: "Resource not found" }, 404);
+    }
+
+    const result = await catalogue.removeResource(resourceId);
+    if (!result.saved) {
+      return c.json(
+        { error: "Invalid catalogue", details: result.errors },
+        400
+      );
+    }
+    return c.json({ deleted: resourceId });
+  });
+
+  app.get("/negotiations", async (c) => {
+    const negotiations = (await negotiationStore.listNegotiations())
+      .filter(({ negotiation }) => !isFinal(negotiation))
+      .map(({ negotiationId, negotiation }) => ({
+        negotiationId,
+        state: negotiation.state,
+        updatedAt: negotiation.updatedAt,
+        resourceId: negotiation.resource.id,
+        quantity: negotiation.quantity,
+        round: negotiation.negotiationRound,
+        maxRounds: negotiation.resource.maxRounds ?? defaultMaxRounds,
+        currentOffer: negotiation.currentOffer,
+        counterOffer: negotiation.counterOffer,
+        agreedPrice: negotiation.agreedPrice,
+        paymentRequestId: negotiation.paymentRequestId,
+      }));
+
+    return c.json({ negotiations });
+  });
+
+  app.post("/negotiations/:negotiationId/cancel", async (c) => {
+    const negotiationId = c.req.param("negotiationId");
+    const negotiation = await negotiationStore.getNegotiation(negotiationId);
+
+    if (!negotiation) {
+      return c.json({ error: "Negotiation not found" }, 404);
+    }
+    if (isFinal(negotiation)) {
+      return c.json(
+        { error: `Negotiation is already ${negotiation.state}` },
+        409
+      );
+    }
+    // Once invoiced the buyer may already be paying, so the receipt has to
+    // be honoured
+    if (negotiation.paymentRequestId) {
+      return c.json(
+        { error: "A payment request was already issued for this negotiation" },
+        409
+      );
+    }
+
+    const body = (await readJsonBody(c.req.raw)) as
+      { reason?: unknown } | undefined;
+    const reason =
+      typeof body?.reason === "string" ? body.reason : "Cancelled by seller";
+
+    const cancelled = await auditedTransition(
+      auditTrail,
+      negotiationId,
+      negotiation,
+      "cancelled"
+    );
+    if (!cancelled.ok) return c.json({ error: cancelled.error }, 409);
+    await negotiationStore.saveNegotiation(negotiationId, negotiation);
+    await auditTrail.record(negotiationId, "negotiation-cancelled", {
+      reason,
+    });
+
+    return c.json({ negotiationId, cancelled: true, reason });
+  });
+
+  // Each transaction comes with the dispute over it, if there is one
+  app.get("/transactions", async (c) => {
+    const transactions = await Promise.all(
+      (await negotiationStore.listTransactions()).map(
+        async ({ paymentRequestId, transaction }) => ({
+          paymentRequestId,
+          transaction,
+          dispute: await negotiationStore.getDispute(paymentRequestId),
+        })
+      )
+    );
+    return c.json({ transactions });
+  });
+
+  // Open disputes first, then newest first
+  app.get("/disputes", async (c) => {
+    const disputes = (await negotiationStore.listDisputes())
+      .map(({ paymentRequestId, dispute }) => ({
+        paymentRequestId,
+        ...dispute,
+      }))
+      .sort(
+        (a, b) =>
+          Number(b.status === "open") - Number(a.status === "open") ||
+          b.openedAt.localeCompare(a.openedAt)
+      );
+
+    return c.json({ disputes });
+  });
+
+  app.post(
+    "/disputes/:paymentRequestId/:decision{approve|reject}",
+    async (c) => {
+      const body = (await readJsonBody(c.req.raw)) as
+        { note?: unknown } | undefined;
+      const result = await disputeDesk.resolve(
+        c.req.param("paymentRequestId"),
+        c.req.param("decision") as DisputeDecision,
+        typeof body?.note === "string" ? body.note : undefined
+      );
+
+      if (!result.ok) {
+        return c.json(
+          { error: result.error },
+          result.status === 404 ? 404 : 409
+        );
+      }
+      return c.json({
+        paymentRequestId: result.paymentRequestId,
+        dispute: result.dispute,
+      });
+    }
+  );
+
+  // Soonest renewal first
+  app.get("/subscriptions", async (c) => {
+    const subscriptions = (await negotiationStore.listGrants())
+      .map(({ grantId, grant }) => ({
+        grantId,
+        ...grant,
+        active: isGrantActive(grant),
+      }))
+      .sort((a, b) => a.renewsAt.localeCompare(b.renewsAt));
+
+    return c.json({ subscriptions });
+  });
+
+  app.get("/reports/revenue", async (c) => {
+    // A refunded sale is no sale at all
+    const transactions = (await negotiationStore.listTransactions())
+      .map(({ transaction }) => transaction)
+      .filter((transaction) => !transaction.refundedAt);
+    const resources = summarizeRevenue(transactions, catalogue);
+
+    return c.json({
+      totalRevenue: roundCents(
+        resources.reduce((sum, r) => sum + r.revenue, 0)
+      ),
+      totalSales: transactions.length,
+      resources,
+    });
+  });
+
+  return app;
+}
@@ -0,0 +1,143 @@
+import type { BundleDiscountTier } from "./bundles";
+import type { DataResource } from "./data-models";
+
+export interface AgentCardResource {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  tags: string[];
+  format: string;
+  size: string;
+  listPrice: number;
+  currency: "USD";
+  negotiable: boolean;
+  subscription?: {
+    periodDays: number;
+    listPrice: number;
+  };
+  // When set, the resource is sold under one of these, by intended use
+  licenses?: {
+    use: string;
+    listPrice: number;
+    terms: string;
+  }[];
+}
+
+/**
+ * A machine-readable description of the seller, served at
+ * `/.well-known/agent.json` so buyer agents can find out what it sells
+ * and how to talk to it before opening a conversation.
+ */
+export interface AgentCard {
+  name: string;
+  description: string;
+  url: string;
+  identity: {
+    did?: string;
+  };
+  endpoints: {
+    chat: string;
+    chatStream: string;
+  };
+  authentication: {
+    type: "ack-lab-jwt";
+    description: string;
+  };
+  payment: {
+    methods: {
+      type: "ack-lab-payment-request";
+      currencies: string[];
+      trustedIssuers: string[];
+    }[];
+    receipts: string;
+  };
+  catalogue: {
+    resourceCount: number;
+    resources: AgentCardResource[];
+    // Discounts for buying several resources together with one payment
+    bundleDiscounts: BundleDiscountTier[];
+  };
+  updatedAt: string;
+}
+
+interface AgentCardOptions {
+  name: string;
+  description: string;
+  publicUrl: string;
+  did?: string;
+  paymentRequestIssuers: string[];
+  resources: DataResource[];
+  bundleDiscounts: BundleDiscountTier[];
+}
+
+// Minimum prices and pricing strategies stay private, since publishing
+// them would tell buyers exactly how low the seller will go
+function summarizeResource(resource: DataResource): AgentCardResource {
+  return {
+    id: resource.id,
+    name: resource.name,
+    description: resource.description,
+    category: resource.category,
+    tags: resource.tags,
+    format: resource.format,
+    size: resource.size,
+    listPrice: resource.listPrice,
+    currency: "USD",
+    negotiable: resource.minimumPrice < resource.listPrice,
+    subscription: resource.subscription && {
+      periodDays: resource.subscription.periodDays,
+      listPrice: resource.subscription.listPrice,
+    },
+    licenses: resource.licenses?.map(({ use, listPrice, terms }) => ({
+      use,
+      listPrice,
+      terms,
+    })),
+  };
+}
+
+export function createAgentCard({
+  name,
+  description,
+  publicUrl,
+  did,
+  paymentRequestIssuers,
+  resources,
+  bundleDiscounts,
+}: AgentCardOptions): AgentCard {
+  return {
+    name,
+    description,
+    url: publicUrl,
+    // With the real ACK-Lab API payments name an agent ID, not a DID,
+    // and an agent ID is not published as one
+    identity: did?.startsWith("did:") ? { did } : {},
+    endpoints: {
+      chat: `${publicUrl}/chat`,
+      chatStream: `${publicUrl}/chat/stream`,
+    },
+    authentication: {
+      type: "ack-lab-jwt",
+      description:
+        'POST {"jwt": "..."} where the JWT is signed by the caller\'s ACK-Lab agent identity and carries {"message", "sessionId"?}. Replies are JWTs signed by this agent.',
+    },
+    payment: {
+      methods: [
+        {
+          type: "ack-lab-payment-request",
+          currencies: ["USD"],
+          trustedIssuers: paymentRequestIssuers,
+        },
+      ],
+      receipts:
+        "Send the ACK-Lab receipt URL in the chat to receive a download URL",
+    },
+    catalogue: {
+      resourceCount: resources.length,
+      resources: resources.map(summarizeResource),
+      bundleDiscounts,
+    },
+    updatedAt: new Date().toISOString(),
+  };
+}
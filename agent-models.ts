@@ -0,0 +1,122 @@
+import { anthropic } from "@ai-sdk/anthropic";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import type { LanguageModel } from "ai";
+import {
+  createScriptedModel,
+  loadScriptedModelFixture,
+} from "./scripted-model";
+
+export type ModelProvider = "anthropic" | "openai-compatible" | "scripted";
+
+const MODEL_PROVIDERS: ModelProvider[] = [
+  "anthropic",
+  "openai-compatible",
+  "scripted",
+];
+
+export interface AgentModelConfig {
+  provider: ModelProvider;
+  modelId: string;
+  temperature?: number;
+  maxSteps: number;
+  // Only used by the openai-compatible provider
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+type AgentName = "buyer" | "seller";
+
+function parseNumber(name: string, value: string | undefined) {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Reads one agent's model settings from the environment. Each
+ * `BUYER_`/`SELLER_` prefixed variable falls back to the unprefixed one, so
+ * both agents can share a setting or be configured separately.
+ */
+export function readAgentModelConfig(
+  agentName: AgentName,
+  defaults: { maxSteps: number },
+  env: NodeJS.ProcessEnv = process.env
+): AgentModelConfig {
+  const prefix = agentName.toUpperCase();
+  const read = (name: string) => env[`${prefix}_${name}`] || env[name];
+
+  const provider = (read("MODEL_PROVIDER") || "anthropic") as ModelProvider;
+  if (!MODEL_PROVIDERS.includes(provider)) {
+    throw new Error(
+      `Unknown model provider "${provider}" for the ${agentName}. Use one of: ${MODEL_PROVIDERS.join(", ")}`
+    );
+  }
+
+  const baseUrl = read("MODEL_BASE_URL");
+  if (provider === "openai-compatible" && !baseUrl) {
+    throw new Error(
+      `Set ${prefix}_MODEL_BASE_URL or MODEL_BASE_URL to use an OpenAI-compatible model for the ${agentName}`
+    );
+  }
+
+  const modelId =
+    read("MODEL_ID") ||
+    (provider === "anthropic" ? "claude-sonnet-4-20250514" : undefined);
+  if (!modelId && provider === "openai-compatible") {
+    throw new Error(
+      `Set ${prefix}_MODEL_ID or MODEL_ID to choose the ${agentName}'s model`
+    );
+  }
+
+  return {
+    provider,
+    modelId: modelId ?? agentName,
+    temperature: parseNumber(
+      `${prefix}_MODEL_TEMPERATURE`,
+      read("MODEL_TEMPERATURE")
+    ),
+    maxSteps:
+      parseNumber(`${prefix}_MAX_STEPS`, read("MAX_STEPS")) ??
+      defaults.maxSteps,
+    baseUrl,
+    apiKey: read("MODEL_API_KEY"),
+  };
+}
+
+/**
+ * Creates the language model an agent runs on. Scripted models replay the
+ * agent's turns from `fixturePath` instead of calling an LLM.
+ */
+export function createAgentModel(
+  agentName: AgentName,
+  config: AgentModelConfig,
+  fixturePath: string
+): LanguageModel {
+  switch (config.provider) {
+    case "anthropic":
+      return anthropic(config.modelId);
+    case "openai-compatible":
+      if (!config.baseUrl) {
+        throw new Error(
+          `The ${agentName}'s OpenAI-compatible model needs a base URL`
+        );
+      }
+      return createOpenAICompatible({
+        name: `${agentName}-model`,
+        baseURL: config.baseUrl,
+        apiKey: config.apiKey,
+      })(config.modelId);
+    case "scripted": {
+      const turns = loadScriptedModelFixture(fixturePath)[agentName];
+      if (!turns) {
+        throw new Error(
+          `Scripted model fixture ${fixturePath} has no turns for the ${agentName}`
+        );
+      }
+      return createScriptedModel(agentName, turns);
+    }
+  }
+}
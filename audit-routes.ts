@@ -0,0 +1,48 @@
+import { Hono } from "hono";
+import { bearerAuth } from "hono/bearer-auth";
+import type { AuditTrail } from "./audit-trail";
+
+interface AuditRoutesConfig {
+  auditTrail: AuditTrail;
+  apiToken: string;
+}
+
+/**
+ * Routes for reading negotiation audit trails. Trails reveal buyers and
+ * payments, so every request needs the admin API token.
+ */
+export function createAuditRoutes({ auditTrail, apiToken }: AuditRoutesConfig) {
+  const app = new Hono();
+
+  app.use("/audit/*", bearerAuth({ token: apiToken }));
+  app.use("/audit", bearerAuth({ token: apiToken }));
+
+  app.get("/audit", async (c) => {
+    return c.json({ negotiationIds: await auditTrail.listNegotiationIds() });
+  });
+
+  app.get("/audit/:negotiationId", async (c) => {
+    const negotiationId = c.req.param("negotiationId");
+    const events = await auditTrail.getEvents(negotiationId);
+
+    if (events.length === 0) {
+      return c.json({ error: "No audit trail for this negotiation" }, 404);
+    }
+
+    // ?download=true exports the trail as a JSON file
+    if (c.req.query("download") === "true") {
+      c.header(
+        "Content-Disposition",
+        `attachment; filename="audit-${negotiationId.replace(/[^\w-]/g, "_")}.json"`
+      );
+    }
+
+    return c.json({
+      negotiationId,
+      exportedAt: new Date().toISOString(),
+      events,
+    });
+  });
+
+  return app;
+}
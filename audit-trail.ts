@@ -0,0 +1,241 @@
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import { appendFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { ToolSet } from "ai";
+import type { StoreConfig } from "./negotiation-store";
+import { createWriteQueue } from "./write-queue";
+
+export type AuditEventType =
+  | "message-received"
+  | "message-sent"
+  | "tool-call"
+  | "tool-result"
+  | "tool-error"
+  | "offer"
+  | "counter-offer"
+  | "offer-accepted"
+  | "negotiation-closed"
+  | "negotiation-cancelled"
+  | "negotiation-expired"
+  | "transition-refused"
+  | "payment-request-created"
+  | "payment-request-refused"
+  | "receipt-verified"
+  | "receipt-rejected"
+  | "delivered"
+  | "dispute-opened"
+  | "dispute-rejected"
+  | "refund-issued"
+  | "refund-failed";
+
+export interface AuditEvent {
+  negotiationId: string;
+  sequence: number;
+  timestamp: string;
+  type: AuditEventType;
+  details: Record<string, unknown>;
+}
+
+/**
+ * An append-only log of everything that happened in each negotiation.
+ * Events can be added and read back, but never changed or removed.
+ */
+export interface AuditTrail {
+  record(
+    negotiationId: string,
+    type: AuditEventType,
+    details: Record<string, unknown>,
+    timestamp?: string
+  ): Promise<AuditEvent>;
+  getEvents(negotiationId: string): Promise<AuditEvent[]>;
+  listNegotiationIds(): Promise<string[]>;
+}
+
+// Access tokens grant downloads, so they never go into the trail
+function redactSecrets(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.replace(/([?&]token=)[^&\s"]+/g, "$1[redacted]");
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        key === "accessKey" ? "[redacted]" : redactSecrets(item),
+      ])
+    );
+  }
+  return value;
+}
+
+function createTrailFromEvents(
+  events: Map<string, AuditEvent[]>,
+  onAppend: (event: AuditEvent) => Promise<void>
+): AuditTrail {
+  return {
+    async record(negotiationId, type, details, timestamp) {
+      const trail = events.get(negotiationId) ?? [];
+      const event: AuditEvent = {
+        negotiationId,
+        sequence: trail.length + 1,
+        timestamp: timestamp ?? new Date().toISOString(),
+        type,
+        details: redactSecrets(details) as Record<string, unknown>,
+      };
+      trail.push(event);
+      events.set(negotiationId, trail);
+      await onAppend(event);
+      return event;
+    },
+
+    async getEvents(negotiationId) {
+      return [...(events.get(negotiationId) ?? [])];
+    },
+
+    async listNegotiationIds() {
+      return [...events.keys()];
+    },
+  };
+}
+
+export function createInMemoryAuditTrail(): AuditTrail {
+  return createTrailFromEvents(new Map(), async () => {});
+}
+
+/**
+ * File-backed audit trail, stored as one JSON event per line so new events
+ * are only ever appended to the file.
+ */
+export function createFileAuditTrail(filePath: string): AuditTrail {
+  const events = new Map<string, AuditEvent[]>();
+  if (existsSync(filePath)) {
+    for (const line of readFileSync(filePath, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as AuditEvent;
+      events.set(event.negotiationId, [
+        ...(events.get(event.negotiationId) ?? []),
+        event,
+      ]);
+    }
+  } else {
+    mkdirSync(dirname(filePath), { recursive: true });
+  }
+
+  const enqueueWrite = createWriteQueue();
+
+  return createTrailFromEvents(events, (event) =>
+    enqueueWrite(() => appendFile(filePath, JSON.stringify(event) + "\n"))
+  );
+}
+
+export function createAuditTrail(config: StoreConfig): AuditTrail {
+  switch (config.driver) {
+    case "memory":
+      return createInMemoryAuditTrail();
+    case "file":
+      return createFileAuditTrail(config.filePath);
+    default:
+      throw new Error(`Unknown audit trail driver: ${config.driver as string}`);
+  }
+}
+
+export interface ConversationAuditor {
+  record(
+    type: AuditEventType,
+    details: Record<string, unknown>,
+    negotiationId?: string
+  ): Promise<void>;
+}
+
+/**
+ * Records the events of one conversation. Events that name a negotiation
+ * tie the conversation to it; the rest go to every negotiation the
+ * conversation is tied to. Events from before the first negotiation are
+ * held back and added to it once it starts.
+ */
+export function createConversationAuditor(
+  trail: AuditTrail
+): ConversationAuditor {
+  const negotiationIds = new Set<string>();
+  const heldBack: {
+    type: AuditEventType;
+    details: Record<string, unknown>;
+    timestamp: string;
+  }[] = [];
+
+  return {
+    async record(type, details, negotiationId) {
+      if (negotiationId && !negotiationIds.has(negotiationId)) {
+        negotiationIds.add(negotiationId);
+        for (const event of heldBack) {
+          await trail.record(
+            negotiationId,
+            event.type,
+            event.details,
+            event.timestamp
+          );
+        }
+      }
+
+      if (negotiationIds.size === 0) {
+        heldBack.push({ type, details, timestamp: new Date().toISOString() });
+        return;
+      }
+
+      for (const id of negotiationId ? [negotiationId] : negotiationIds) {
+        await trail.record(id, type, details);
+      }
+    },
+  };
+}
+
+/**
+ * Wraps each tool so its calls, results and errors are recorded, under
+ * the negotiation named in the tool input when there is one.
+ */
+export function withToolAudit<TOOLS extends ToolSet>(
+  tools: TOOLS,
+  auditor: ConversationAuditor
+): TOOLS {
+  return Object.fromEntries(
+    Object.entries(tools).map(([toolName, tool]) => {
+      const execute = tool.execute;
+      if (!execute) return [toolName, tool];
+
+      return [
+        toolName,
+        {
+          ...tool,
+          execute: async (input: unknown, options: unknown) => {
+            const negotiationId = (input as { negotiationId?: unknown })
+              ?.negotiationId;
+            const id =
+              typeof negotiationId === "string" ? negotiationId : undefined;
+
+            await auditor.record("tool-call", { toolName, input }, id);
+            try {
+              const output = await execute(
+                input,
+                options as Parameters<typeof execute>[1]
+              );
+              await auditor.record("tool-result", { toolName, output }, id);
+              return output;
+            } catch (error) {
+              await auditor.record(
+                "tool-error",
+                {
+                  toolName,
+                  error: error instanceof Error ? error.message : String(error),
+                },
+                id
+              );
+              throw error;
+            }
+          },
+        },
+      ];
+    })
+  ) as TOOLS;
+}
@@ -0,0 +1,161 @@
+import type { DataResource } from "./data-models";
+import { licenseResource, type NegotiatedLicense } from "./licenses";
+
+export interface BundleDiscountTier {
+  minItems: number;
+  discount: number;
+}
+
+/**
+ * Several resources sold together under one negotiation and one payment.
+ * `resource` describes the bundle as a whole so it can be negotiated and
+ * invoiced like any single resource; `items` are what gets delivered.
+ */
+export interface DataBundle {
+  resource: DataResource;
+  items: DataResource[];
+  discount: number;
+  license?: NegotiatedLicense;
+}
+
+export type BundleResult =
+  { found: true; bundle: DataBundle } | { found: false; error: string };
+
+const BUNDLE_ID_PREFIX = "bundle:";
+
+/**
+ * Parses discount tiers written as `minItems:discount` pairs, e.g.
+ * "2:0.1,3:0.15" takes 10% off two resources and 15% off three or more.
+ */
+export function parseBundleDiscounts(
+  value: string | undefined
+): BundleDiscountTier[] {
+  return (value ?? "")
+    .split(",")
+    .filter(Boolean)
+    .map((entry) => {
+      const [minItems, discount] = entry.split(":").map(Number);
+      if (
+        !Number.isInteger(minItems) ||
+        minItems < 2 ||
+        !(discount >= 0 && discount < 1)
+      ) {
+        throw new Error(
+          `Invalid bundle discount "${entry}". Use minItems:discount, e.g. 2:0.1`
+        );
+      }
+      return { minItems, discount };
+    });
+}
+
+// The same set of resources always gets the same ID, whatever order the
+// buyer listed them in
+export function createBundleId(resourceIds: string[]): string {
+  return BUNDLE_ID_PREFIX + [...new Set(resourceIds)].sort().join("+");
+}
+
+export function parseBundleId(bundleId: string): string[] | undefined {
+  if (!bundleId.startsWith(BUNDLE_ID_PREFIX)) return undefined;
+  return bundleId.slice(BUNDLE_ID_PREFIX.length).split("+");
+}
+
+export function bundleName(items: Pick<DataResource, "name">[]): string {
+  return `Bundle: ${items.map((item) => item.name).join(" + ")}`;
+}
+
+function discountFor(itemCount: number, tiers: BundleDiscountTier[]): number {
+  return tiers
+    .filter((tier) => itemCount >= tier.minItems)
+    .reduce((best, tier) => Math.max(best, tier.discount), 0);
+}
+
+/**
+ * Prices a bundle at the sum of its items less the largest tier discount
+ * it qualifies for. The minimum price is discounted too but rounded up,
+ * so a bundle never sells for less than the discounted item minimums.
+ * Bundles negotiate with the midpoint strategy and end after the fewest
+ * rounds any of their items allows.
+ */
+export function createBundle(
+  items: DataResource[],
+  tiers: BundleDiscountTier[]
+): DataBundle {
+  const discount = discountFor(items.length, tiers);
+  const sum = (price: (item: DataResource) => number) =>
+    items.reduce((total, item) => total + price(item), 0);
+
+  const listPrice = Math.round(sum((item) => item.listPrice) * (1 - discount));
+  const minimumPrice = Math.min(
+    listPrice,
+    Math.ceil(sum((item) => item.minimumPrice) * (1 - discount))
+  );
+  const maxRounds = items.flatMap((item) =>
+    item.maxRounds === undefined ? [] : [item.maxRounds]
+  );
+
+  return {
+    items,
+    discount,
+    resource: {
+      id: createBundleId(items.map((item) => item.id)),
+      name: bundleName(items),
+      description: items.map((item) => item.description).join("; "),
+      format: [...new Set(items.map((item) => item.format))].join(" + "),
+      size: items.map((item) => item.size).join(" + "),
+      listPrice,
+      minimumPrice,
+      category: "bundle",
+      tags: [...new Set(items.flatMap((item) => item.tags))],
+      fileName: items.map((item) => item.fileName).join(" + "),
+      pricingStrategy: { type: "midpoint" },
+      maxRounds: maxRounds.length > 0 ? Math.min(...maxRounds) : undefined,
+    },
+  };
+}
+
+/**
+ * Builds the bundle for a set of resource IDs, or explains why it cannot
+ * be sold as one. Items with license tiers are priced for the intended
+ * use, and the bundle carries the terms of every tier it includes.
+ */
+export function findBundle(
+  resourceIds: string[],
+  findResource: (resourceId: string) => DataResource | undefined,
+  tiers: BundleDiscountTier[],
+  intendedUse?: string
+): BundleResult {
+  const uniqueIds = [...new Set(resourceIds)].sort();
+  if (uniqueIds.length < 2) {
+    return {
+      found: false,
+      error: "A bundle needs at least two different resources",
+    };
+  }
+
+  const items = uniqueIds.map(findResource);
+  const unknownIds = uniqueIds.filter((_id, index) => !items[index]);
+  if (unknownIds.length > 0) {
+    return {
+      found: false,
+      error: `Resources not found: ${unknownIds.join(", ")}`,
+    };
+  }
+
+  const licensedItems: DataResource[] = [];
+  const licenses: NegotiatedLicense[] = [];
+  for (const item of items as DataResource[]) {
+    const result = licenseResource(item, intendedUse);
+    if (!result.licensed) return { found: false, error: result.error };
+    licensedItems.push(result.resource);
+    if (result.license) licenses.push(result.license);
+  }
+
+  const bundle = createBundle(licensedItems, tiers);
+  if (licenses.length > 0) {
+    bundle.license = {
+      use: licenses[0].use,
+      terms: licenses.map((license) => license.terms).join(" "),
+    };
+  }
+  return { found: true, bundle };
+}
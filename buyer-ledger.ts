@@ -0,0 +1,226 @@
+export interface LedgerEntry {
+  paymentRequestId: string;
+  amount: number;
+  description?: string;
+  receiptUrl: string;
+  paidAt: string;
+}
+
+// Money a seller paid back for one of the buyer's payments
+export interface RefundEntry {
+  paymentRequestId: string;
+  refundRequestId: string;
+  amount: number;
+  receiptUrl: string;
+  refundedAt: string;
+}
+
+// A payment whose outcome is unknown because it failed part way through
+export interface UnconfirmedPayment {
+  paymentRequestId: string;
+  amount: number;
+  error: string;
+  failedAt: string;
+}
+
+export interface LedgerLimits {
+  budget: number;
+  maxPerPurchase: number;
+}
+
+export interface BudgetSummary extends LedgerLimits {
+  spent: number;
+  reserved: number;
+  remaining: number;
+  payments: LedgerEntry[];
+  refunds: RefundEntry[];
+  unconfirmed: UnconfirmedPayment[];
+}
+
+export type ReservationResult =
+  { approved: true } | { approved: false; reason: string };
+
+export type RefundResult =
+  { credited: true; refund: RefundEntry } | { credited: false; reason: string };
+
+export interface BuyerLedger {
+  reserve(paymentRequestId: string, amount: number): ReservationResult;
+  commit(
+    paymentRequestId: string,
+    details: { description?: string; receiptUrl: string }
+  ): LedgerEntry;
+  markUnconfirmed(paymentRequestId: string, error: string): void;
+  // Records the payment request a seller pays to refund a payment
+  expectRefund(paymentRequestId: string, refundRequestId: string): void;
+  creditRefund(
+    refundRequestId: string,
+    details: { amount: number; receiptUrl: string }
+  ): RefundResult;
+  getSummary(): BudgetSummary;
+}
+
+/**
+ * Tracks the buyer's spending. A payment has to reserve its amount before
+ * any money moves, so two payments in flight can never overspend together;
+ * the reservation is then committed once paid. A payment that fails may
+ * still have moved money, so its reservation is kept and marked
+ * unconfirmed rather than released, and it cannot be attempted again.
+ * A refund is credited back once its receipt confirms the seller paid
+ * the refund request, and only what was paid for the payment is
+ * returned to the budget.
+ *
+ * The ledger is kept in memory only: restarting the buyer forgets what it
+ * has spent and starts again from the full budget.
+ */
+export function createBuyerLedger(limits: LedgerLimits): BuyerLedger {
+  const payments: LedgerEntry[] = [];
+  const refunds: RefundEntry[] = [];
+  // Refund request ID -> the payment it refunds
+  const expectedRefunds = new Map<string, string>();
+  const reservations = new Map<string, number>();
+  const unconfirmed = new Map<
+    string,
+    Omit<UnconfirmedPayment, "paymentRequestId">
+  >();
+
+  const sum = (values: Iterable<number>) =>
+    [...values].reduce((total, value) => total + value, 0);
+
+  const getSpent = () =>
+    sum(payments.map((p) => p.amount)) - sum(refunds.map((r) => r.amount));
+  const getReserved = () => sum(reservations.values());
+
+  return {
+    reserve(paymentRequestId, amount) {
+      if (payments.some((p) => p.paymentRequestId === paymentRequestId)) {
+        return {
+          approved: false,
+          reason: `Payment request ${paymentRequestId} has already been paid`,
+        };
+      }
+
+      if (unconfirmed.has(paymentRequestId)) {
+        return {
+          approved: false,
+          reason: `An earlier payment of ${paymentRequestId} failed and may have gone through. Check with the seller before paying again`,
+        };
+      }
+
+      if (reservations.has(paymentRequestId)) {
+        return {
+          approved: false,
+          reason: `Payment request ${paymentRequestId} is already being paid`,
+        };
+      }
+
+      if (amount > limits.maxPerPurchase) {
+        return {
+          approved: false,
+          reason: `$${amount} exceeds the per-purchase limit of $${limits.maxPerPurchase}`,
+        };
+      }
+
+      const remaining = limits.budget - getSpent() - getReserved();
+      if (amount > remaining) {
+        return {
+          approved: false,
+          reason: `$${amount} exceeds the remaining budget of $${remaining}`,
+        };
+      }
+
+      reservations.set(paymentRequestId, amount);
+      return { approved: true };
+    },
+
+    commit(paymentRequestId, { description, receiptUrl }) {
+      const amount = reservations.get(paymentRequestId);
+      if (amount === undefined) {
+        throw new Error(`No reservation for payment ${paymentRequestId}`);
+      }
+
+      reservations.delete(paymentRequestId);
+      const entry: LedgerEntry = {
+        paymentRequestId,
+        amount,
+        description,
+        receiptUrl,
+        paidAt: new Date().toISOString(),
+      };
+      payments.push(entry);
+      return entry;
+    },
+
+    markUnconfirmed(paymentRequestId, error) {
+      const amount = reservations.get(paymentRequestId);
+      if (amount === undefined) {
+        throw new Error(`No reservation for payment ${paymentRequestId}`);
+      }
+      unconfirmed.set(paymentRequestId, {
+        amount,
+        error,
+        failedAt: new Date().toISOString(),
+      });
+    },
+
+    expectRefund(paymentRequestId, refundRequestId) {
+      if (!payments.some((p) => p.paymentRequestId === paymentRequestId)) {
+        throw new Error(`No payment ${paymentRequestId} to refund`);
+      }
+      expectedRefunds.set(refundRequestId, paymentRequestId);
+    },
+
+    creditRefund(refundRequestId, { amount, receiptUrl }) {
+      const paymentRequestId = expectedRefunds.get(refundRequestId);
+      const payment = payments.find(
+        (p) => p.paymentRequestId === paymentRequestId
+      );
+      if (!paymentRequestId || !payment) {
+        return {
+          credited: false,
+          reason: `Refund request ${refundRequestId} was not made for any payment`,
+        };
+      }
+
+      if (refunds.some((r) => r.paymentRequestId === paymentRequestId)) {
+        return {
+          credited: false,
+          reason: `The refund of ${paymentRequestId} has already been credited`,
+        };
+      }
+
+      if (amount !== payment.amount) {
+        return {
+          credited: false,
+          reason: `The refund of $${amount} does not match the $${payment.amount} paid for ${paymentRequestId}`,
+        };
+      }
+
+      const refund: RefundEntry = {
+        paymentRequestId,
+        refundRequestId,
+        amount,
+        receiptUrl,
+        refundedAt: new Date().toISOString(),
+      };
+      refunds.push(refund);
+      return { credited: true, refund };
+    },
+
+    getSummary() {
+      const spent = getSpent();
+      const reserved = getReserved();
+      return {
+        ...limits,
+        spent,
+        reserved,
+        remaining: limits.budget - spent - reserved,
+        payments: [...payments],
+        refunds: [...refunds],
+        unconfirmed: [...unconfirmed].map(([paymentRequestId, failure]) => ({
+          paymentRequestId,
+          ...failure,
+        })),
+      };
+    },
+  };
+}
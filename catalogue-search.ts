@@ -0,0 +1,165 @@
+import type { DataResource } from "./data-models";
+
+// Matches at or above this relevance are offered; anything lower but still
+// related is reported as a near-miss
+const MATCH_THRESHOLD = 0.6;
+const PREFIX_MATCH_FACTOR = 0.5;
+const MIN_PREFIX_LENGTH = 3;
+
+const FIELD_WEIGHTS = {
+  name: 3,
+  tags: 3,
+  category: 2,
+  description: 1,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+const STOP_WORDS = new Set([
+  "a",
+  "about",
+  "an",
+  "and",
+  "any",
+  "are",
+  "data",
+  "do",
+  "for",
+  "have",
+  "i",
+  "in",
+  "is",
+  "looking",
+  "me",
+  "need",
+  "of",
+  "on",
+  "or",
+  "some",
+  "the",
+  "to",
+  "want",
+  "with",
+  "you",
+]);
+
+// Only these fields are searched, so listings from another seller's agent
+// card can be ranked the same way as our own catalogue
+export type SearchableResource = Pick<
+  DataResource,
+  "name" | "tags" | "category" | "description"
+>;
+
+export interface SearchResult<T extends SearchableResource = DataResource> {
+  resource: T;
+  relevance: number;
+  matchedTerms: string[];
+}
+
+export interface SearchResponse<T extends SearchableResource = DataResource> {
+  matches: SearchResult<T>[];
+  nearMisses: SearchResult<T>[];
+  unmatchedTerms: string[];
+}
+
+function normalizeToken(token: string): string {
+  // Fold simple plurals so "prices" matches "price"
+  if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9&]+/g) ?? [])
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+    .map(normalizeToken);
+}
+
+function indexResource(
+  resource: SearchableResource
+): Record<SearchField, string[]> {
+  return {
+    name: tokenize(resource.name),
+    tags: resource.tags.flatMap(tokenize),
+    category: tokenize(resource.category.replace(/_/g, " ")),
+    description: tokenize(resource.description),
+  };
+}
+
+function scoreToken(token: string, terms: string[]): number {
+  if (terms.includes(token)) return 1;
+
+  const isPrefixMatch =
+    token.length >= MIN_PREFIX_LENGTH &&
+    terms.some(
+      (term) =>
+        term.length >= MIN_PREFIX_LENGTH &&
+        (term.startsWith(token) || token.startsWith(term))
+    );
+
+  return isPrefixMatch ? PREFIX_MATCH_FACTOR : 0;
+}
+
+/**
+ * Scores every resource against the query. Each query token contributes
+ * the weight of the best field it matches, normalised by the best possible
+ * score so relevance is always between 0 and 1. Tokens that match nothing
+ * in the whole catalogue are left out of the normalisation (so filler words
+ * do not dilute relevance) and reported as unmatched instead.
+ */
+export function searchCatalogue<T extends SearchableResource>(
+  resources: T[],
+  query: string,
+  limit = 5
+): SearchResponse<T> {
+  const queryTokens = [...new Set(tokenize(query))];
+  const indexed = resources.map((resource) => ({
+    resource,
+    index: indexResource(resource),
+  }));
+
+  const scored = indexed.map(({ resource, index }) => {
+    const tokenScores = queryTokens.map((token) =>
+      Math.max(
+        ...(Object.keys(FIELD_WEIGHTS) as SearchField[]).map(
+          (field) => scoreToken(token, index[field]) * FIELD_WEIGHTS[field]
+        )
+      )
+    );
+    return { resource, tokenScores };
+  });
+
+  const unmatchedTerms = queryTokens.filter((_token, i) =>
+    scored.every(({ tokenScores }) => tokenScores[i] === 0)
+  );
+  const informativeCount = queryTokens.length - unmatchedTerms.length;
+
+  if (informativeCount === 0) {
+    return { matches: [], nearMisses: [], unmatchedTerms };
+  }
+
+  const maxScore = informativeCount * Math.max(...Object.values(FIELD_WEIGHTS));
+
+  const results = scored
+    .map(({ resource, tokenScores }): SearchResult<T> => {
+      const score = tokenScores.reduce((sum, value) => sum + value, 0);
+      return {
+        resource,
+        relevance: Math.round((score / maxScore) * 100) / 100,
+        matchedTerms: queryTokens.filter((_token, i) => tokenScores[i] > 0),
+      };
+    })
+    .filter((result) => result.relevance > 0)
+    .sort((a, b) => b.relevance - a.relevance);
+
+  return {
+    matches: results
+      .filter((result) => result.relevance >= MATCH_THRESHOLD)
+      .slice(0, limit),
+    nearMisses: results
+      .filter((result) => result.relevance < MATCH_THRESHOLD)
+      .slice(0, limit),
+    unmatchedTerms,
+  };
+}
@@ -0,0 +1,192 @@
+import { readFileSync, watch, type FSWatcher } from "node:fs";
+import { rename, writeFile } from "node:fs/promises";
+import { basename, dirname } from "node:path";
+import { z } from "zod";
+import { dataResourceSchema, type DataResource } from "./data-models";
+import { logger } from "./logger";
+import { createWriteQueue } from "./write-queue";
+
+const RELOAD_DEBOUNCE_MS = 100;
+
+export const catalogueManifestSchema = z
+  .object({
+    resources: z.array(dataResourceSchema),
+  })
+  .superRefine(({ resources }, ctx) => {
+    const seen = new Set<string>();
+    resources.forEach((resource, index) => {
+      if (seen.has(resource.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["resources", index, "id"],
+          message: `Duplicate resource id "${resource.id}"`,
+        });
+      }
+      seen.add(resource.id);
+
+      if (resource.minimumPrice > resource.listPrice) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["resources", index, "minimumPrice"],
+          message: "minimumPrice cannot exceed listPrice",
+        });
+      }
+
+      const uses = new Set<string>();
+      resource.licenses?.forEach((tier, tierIndex) => {
+        const path = ["resources", index, "licenses", tierIndex];
+        if (uses.has(tier.use)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [...path, "use"],
+            message: `Duplicate license use "${tier.use}"`,
+          });
+        }
+        uses.add(tier.use);
+
+        if (tier.minimumPrice > tier.listPrice) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [...path, "minimumPrice"],
+            message: "minimumPrice cannot exceed listPrice",
+          });
+        }
+      });
+
+      const { subscription } = resource;
+      if (subscription && subscription.minimumPrice > subscription.listPrice) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["resources", index, "subscription", "minimumPrice"],
+          message: "minimumPrice cannot exceed listPrice",
+        });
+      }
+      // Subscription periods have a single price, so they cannot be
+      // licensed by intended use
+      if (subscription && resource.licenses) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["resources", index, "subscription"],
+          message: "A resource with licenses cannot be sold by subscription",
+        });
+      }
+    });
+  });
+
+export type CatalogueUpdate =
+  | { saved: true; resources: DataResource[] }
+  | { saved: false; errors: string[] };
+
+export interface Catalogue {
+  getResources(): DataResource[];
+  findById(resourceId: string): DataResource | undefined;
+  saveResource(resource: unknown): Promise<CatalogueUpdate>;
+  removeResource(resourceId: string): Promise<CatalogueUpdate>;
+  close(): void;
+}
+
+function validateManifest(raw: unknown): CatalogueUpdate {
+  const result = catalogueManifestSchema.safeParse(raw);
+  if (!result.success) {
+    return {
+      saved: false,
+      errors: result.error.issues.map(
+        (issue) => `${issue.path.join(".")}: ${issue.message}`
+      ),
+    };
+  }
+  return { saved: true, resources: result.data.resources };
+}
+
+/**
+ * Reads and validates a catalogue manifest, throwing a descriptive error
+ * listing every invalid field.
+ */
+export function loadCatalogueManifest(manifestPath: string): DataResource[] {
+  const result = validateManifest(
+    JSON.parse(readFileSync(manifestPath, "utf8"))
+  );
+
+  if (!result.saved) {
+    throw new Error(
+      `Invalid catalogue manifest ${manifestPath}: ${result.errors.join("; ")}`
+    );
+  }
+
+  return result.resources;
+}
+
+/**
+ * Loads the catalogue from a manifest file and, when `watchForChanges` is
+ * set, reloads it whenever the file changes. An invalid edit is logged and
+ * the previously loaded catalogue stays in place. Changes made through
+ * `saveResource` and `removeResource` are validated the same way before
+ * they are written back to the manifest.
+ */
+export function createCatalogue(
+  manifestPath: string,
+  { watchForChanges = true }: { watchForChanges?: boolean } = {}
+): Catalogue {
+  let resources = loadCatalogueManifest(manifestPath);
+  logger.info("Catalogue loaded", `${resources.length} resources`);
+
+  let watcher: FSWatcher | undefined;
+  let reloadTimer: NodeJS.Timeout | undefined;
+
+  const reload = () => {
+    try {
+      resources = loadCatalogueManifest(manifestPath);
+      logger.success("Catalogue reloaded", `${resources.length} resources`);
+    } catch (error) {
+      logger.error("Keeping previous catalogue", error);
+    }
+  };
+
+  if (watchForChanges) {
+    // Watch the directory rather than the file, since editors often replace
+    // the file on save instead of writing to it in place
+    const fileName = basename(manifestPath);
+    watcher = watch(dirname(manifestPath), (_event, changed) => {
+      if (changed !== fileName) return;
+      clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(reload, RELOAD_DEBOUNCE_MS);
+    });
+    watcher.unref();
+  }
+
+  const enqueueWrite = createWriteQueue();
+
+  const update = (next: unknown[]) => {
+    const result = validateManifest({ resources: next });
+    if (!result.saved) return Promise.resolve(result);
+
+    resources = result.resources;
+    const contents = JSON.stringify({ resources }, null, 2) + "\n";
+    return enqueueWrite(async () => {
+      const tempPath = `${manifestPath}.tmp`;
+      await writeFile(tempPath, contents);
+      await rename(tempPath, manifestPath);
+      return result;
+    });
+  };
+
+  return {
+    getResources: () => resources,
+    findById: (resourceId) => resources.find((r) => r.id === resourceId),
+    saveResource: (resource) => {
+      const id = (resource as { id?: unknown } | null)?.id;
+      const index = resources.findIndex((r) => r.id === id);
+      return update(
+        index === -1
+          ? [...resources, resource]
+          : resources.map((r, i) => (i === index ? resource : r))
+      );
+    },
+    removeResource: (resourceId) =>
+      update(resources.filter((r) => r.id !== resourceId)),
+    close: () => {
+      clearTimeout(reloadTimer);
+      watcher?.close();
+    },
+  };
+}
@@ -4,14 +4,9 @@ import { input } from "@inquirer/prompts"
 
 const CONFIG = {
   BUYER_BUDGET: parseInt(process.env.BUYER_BUDGET || "10"),
-  MIN_PRICES: {
-    housing: 8,
-    ticker: 10,
-    llm_paper: 12
-  },
   AGENTS: {
-    buyer: { port: 7576, name: "Marketplace Buyer" },
-    seller: { port: 7577, name: "Marketplace Seller" }
+    buyer: { port: parseInt(process.env.BUYER_PORT || "7576"), name: "Marketplace Buyer" },
+    seller: { port: parseInt(process.env.SELLER_PORT || "7577"), name: "Marketplace Seller" }
   },
   HEALTH_CHECK: {
     maxRetries: 10,
@@ -20,7 +15,10 @@ const CONFIG = {
   }
 }
 
-const responseSchema = z.object({ text: z.string() })
+const responseSchema = z.object({ text: z.string(), sessionId: z.string().optional() })
+
+// The buyer remembers the conversation for as long as we send its session ID
+let sessionId: string | undefined
 
 async function isAgentHealthy(port: number): Promise<boolean> {
   try {
@@ -70,31 +68,91 @@ async function waitForAgents(): Promise<boolean> {
   return false
 }
 
+interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true })
+
+    let boundary = buffer.indexOf("\n\n")
+    while (boundary !== -1) {
+      let event = "message"
+      const data: string[] = []
+      for (const line of buffer.slice(0, boundary).split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim()
+        if (line.startsWith("data:")) data.push(line.slice(5).trimStart())
+      }
+      yield { event, data: data.join("\n") }
+
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf("\n\n")
+    }
+  }
+}
+
+function preview(value: unknown, length = 120): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value)
+  return text.length > length ? text.substring(0, length) + "..." : text
+}
+
+// Streams the buyer's reply, printing its text and tool calls as they happen
 async function sendAgentMessage(message: string): Promise<string> {
-  const response = await fetch(`http://localhost:${CONFIG.AGENTS.buyer.port}/chat`, {
+  const response = await fetch(`http://localhost:${CONFIG.AGENTS.buyer.port}/chat/stream`, {
     method: "POST",
-    body: JSON.stringify({ message }),
+    body: JSON.stringify({ message, sessionId }),
     headers: { "Content-Type": "application/json" }
   })
 
-  const { text } = responseSchema.parse(await response.json())
-  return text
+  if (!response.ok || !response.body) {
+    throw new Error(`Buyer agent responded with status ${response.status}`)
+  }
+
+  console.log(colors.green("\n>>> Result:"))
+
+  for await (const { event, data } of readServerSentEvents(response.body)) {
+    const payload = JSON.parse(data)
+
+    switch (event) {
+      case "text-delta":
+        process.stdout.write(payload.delta)
+        break
+      case "tool-call":
+        console.log(colors.yellow(`\n🔧 ${payload.toolName}`), colors.gray(preview(payload.input)))
+        break
+      case "tool-result":
+        console.log(colors.gray(`   ↳ ${preview(payload.output)}`))
+        break
+      case "tool-error":
+        console.log(colors.red(`   ↳ ${payload.toolName} failed: ${payload.error}`))
+        break
+      case "error":
+        throw new Error(payload.message)
+      case "done": {
+        const result = responseSchema.parse(payload)
+        sessionId = result.sessionId
+        return result.text
+      }
+    }
+  }
+
+  throw new Error("The buyer agent closed the stream without a reply")
 }
 
 function printWelcome() {
   console.log(colors.cyan("\n=== Data Negotiation Demo ==="))
   console.log(colors.yellow("Marketplace buyer negotiates with seller for data resources"))
   console.log(colors.gray(`Buyer budget: $${CONFIG.BUYER_BUDGET}`))
-  console.log(colors.gray(
-    `Minimum prices: Housing $${CONFIG.MIN_PRICES.housing}, ` +
-    `Ticker $${CONFIG.MIN_PRICES.ticker}, ` +
-    `LLM Paper $${CONFIG.MIN_PRICES.llm_paper}`
-  ))
   console.log(colors.gray("Type /exit to quit\n"))
 }
 
-function printResult(text: string) {
-  console.log(colors.green("\n>>> Result:"), text)
+// The reply text has already been streamed, so just close off the turn
+function printResultEnd() {
   console.log(colors.gray("\n" + "=".repeat(50) + "\n"))
 }
 
@@ -112,8 +170,8 @@ async function runInteractiveSession() {
     console.log(colors.green("\n>>> Processing:"), userInput)
     
     try {
-      const result = await sendAgentMessage(userInput)
-      printResult(result)
+      await sendAgentMessage(userInput)
+      printResultEnd()
     } catch (error) {
       console.error(colors.red("Error:"), error)
     }
@@ -135,8 +193,8 @@ async function main() {
   printWelcome()
   
   console.log(colors.green("\n>>> Starting negotiation..."))
-  const initialResult = await sendAgentMessage("Start looking for data resources")
-  printResult(initialResult)
+  await sendAgentMessage("Start looking for data resources")
+  printResultEnd()
   
   await runInteractiveSession()
 }
@@ -0,0 +1,88 @@
+import { randomUUID } from "node:crypto";
+import type { ModelMessage } from "ai";
+
+export interface ConversationSession<State> {
+  id: string;
+  messages: ModelMessage[];
+  state: State;
+  lastActiveAt: number;
+}
+
+export interface SessionOptions {
+  ttlMs: number;
+  maxMessages: number;
+}
+
+export interface SessionStore<State> {
+  getOrCreate(sessionId: string | undefined): ConversationSession<State>;
+  appendMessages(
+    session: ConversationSession<State>,
+    messages: ModelMessage[]
+  ): void;
+  size(): number;
+}
+
+// Tool results only make sense after the assistant message that called the
+// tool, so a trimmed history always starts at a user message
+function trimHistory(messages: ModelMessage[], maxMessages: number) {
+  let start = Math.max(0, messages.length - maxMessages);
+  while (start < messages.length && messages[start].role !== "user") {
+    start++;
+  }
+  return messages.slice(start);
+}
+
+/**
+ * Keeps each conversation's message history and agent state between
+ * `/chat` requests. Sessions expire after `ttlMs` without activity, and
+ * only the most recent `maxMessages` messages are kept. An unknown or
+ * expired session ID starts a new session with a fresh ID rather than
+ * adopting the one the caller chose.
+ */
+export function createSessionStore<State>(
+  createState: () => State,
+  { ttlMs, maxMessages }: SessionOptions
+): SessionStore<State> {
+  const sessions = new Map<string, ConversationSession<State>>();
+
+  function removeExpired(now: number) {
+    for (const [id, session] of sessions) {
+      if (now - session.lastActiveAt > ttlMs) sessions.delete(id);
+    }
+  }
+
+  return {
+    getOrCreate(sessionId) {
+      const now = Date.now();
+      removeExpired(now);
+
+      const existing = sessionId ? sessions.get(sessionId) : undefined;
+      if (existing) {
+        existing.lastActiveAt = now;
+        return existing;
+      }
+
+      const session: ConversationSession<State> = {
+        id: randomUUID(),
+        messages: [],
+        state: createState(),
+        lastActiveAt: now,
+      };
+      sessions.set(session.id, session);
+      return session;
+    },
+
+    appendMessages(session, messages) {
+      session.messages = trimHistory(
+        [...session.messages, ...messages],
+        maxMessages
+      );
+      session.lastActiveAt = Date.now();
+    },
+
+    size() {
+      removeExpired(Date.now());
+      return sessions.size;
+    },
+  };
+}
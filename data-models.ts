@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { licenseTierSchema, type NegotiatedLicense } from "./licenses";
+import { pricingStrategySchema } from "./pricing-strategies";
+
+// ===== Data Models =====
+export const dataResourceSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string(),
+  format: z.string(),
+  size: z.string(),
+  listPrice: z.number().positive(),
+  minimumPrice: z.number().positive(),
+  category: z.string(),
+  tags: z.array(z.string()).default([]),
+  fileName: z.string().min(1),
+  pricingStrategy: pricingStrategySchema.default({ type: "midpoint" }),
+  maxRounds: z.number().int().positive().optional(),
+  // Rolling resources can also be sold as time-limited access that the
+  // buyer renews each period, negotiated like a purchase of its own
+  subscription: z
+    .object({
+      periodDays: z.number().int().positive(),
+      listPrice: z.number().positive(),
+      minimumPrice: z.number().positive(),
+    })
+    .optional(),
+  // Prices and terms by intended use, e.g. academic or commercial. When
+  // set, the resource is only sold under one of these tiers
+  licenses: z.array(licenseTierSchema).min(1).optional(),
+});
+
+export type DataResource = z.infer<typeof dataResourceSchema>;
+
+/**
+ * Where a negotiation is in its lifecycle: open until the seller answers
+ * the first offer, then countered or agreed, invoiced, paid and finally
+ * delivered. It can instead end closed (out of rounds), cancelled by the
+ * seller or expired. `negotiation-lifecycle.ts` has the allowed moves.
+ */
+export type NegotiationState =
+  | "open"
+  | "countered"
+  | "agreed"
+  | "invoiced"
+  | "paid"
+  | "delivered"
+  | "closed"
+  | "cancelled"
+  | "expired";
+
+export interface PendingNegotiation {
+  state: NegotiationState;
+  // When the negotiation last changed state, which is what it expires from
+  updatedAt: string;
+  // The DID of the agent that made the first offer, which must also pay
+  buyer?: string;
+  resource: DataResource;
+  // Set when negotiating a bundle, in which case `resource` describes the
+  // whole bundle and these are the resources delivered once it is paid
+  bundleItems?: DataResource[];
+  // Set when negotiating a subscription period, in which case `resource`
+  // carries the subscription prices
+  subscription?: {
+    resourceId: string;
+    periodDays: number;
+    renewsGrantId?: string;
+  };
+  // The license tier the buyer declared, whose prices `resource` carries
+  license?: NegotiatedLicense;
+  currentOffer: number;
+  negotiationRound: number;
+  quantity: number;
+  counterOffer?: number;
+  agreedPrice?: number;
+  paymentRequestId?: string;
+}
+
+export interface CompletedTransaction {
+  resourceId: string;
+  // Every resource a bundle purchase delivered
+  resourceIds?: string[];
+  finalPrice: number;
+  // List price for the purchased quantity, kept to report discounts
+  listPrice?: number;
+  buyer: string;
+  negotiationId?: string;
+  // The subscription grant this payment started or renewed
+  grantId?: string;
+  license?: NegotiatedLicense;
+  // Set once a dispute over this payment is refunded, which ends access
+  refundedAt?: string;
+  // What the receipt proved when the purchase was delivered
+  receipt?: VerifiedReceipt;
+}
+
+export interface VerifiedReceipt {
+  receiptUrl: string;
+  payer: string;
+  amount: number;
+  paymentOptionId?: string;
+  expiresAt?: string;
+  verifiedAt: string;
+}
+
+/**
+ * Time-limited access to a resource. Renewing extends the same grant from
+ * its current end date, so paying early never loses days.
+ */
+export interface SubscriptionGrant {
+  resourceId: string;
+  buyer: string;
+  periodDays: number;
+  startedAt: string;
+  renewsAt: string;
+  renewals: number;
+  paymentRequestIds: string[];
+  // Set once every payment for the grant has been refunded
+  revokedAt?: string;
+}
+
+export type DisputeStatus =
+  "open" | "rejected" | "refunding" | "refunded" | "refund-failed";
+
+/**
+ * A buyer's claim against a payment, keyed like transactions by payment
+ * request ID. Approving it pays the buyer back through their own refund
+ * payment request; a refund that fails can be approved again. A dispute
+ * left refunding was interrupted while paying and needs checking by hand.
+ */
+export interface Dispute {
+  receiptUrl: string;
+  buyer: string;
+  amount: number;
+  reason: string;
+  refundRequestUrl: string;
+  // Whether the disputed payment had been delivered, as of its resolution
+  // once resolved
+  delivered: boolean;
+  status: DisputeStatus;
+  openedAt: string;
+  resolvedAt?: string;
+  resolution?: string;
+  refundReceiptUrl?: string;
+}
@@ -1,26 +1,192 @@
 import "dotenv/config";
-import { generateText, stepCountIs, tool } from "ai";
-import { serveAgent, serveAuthedAgent } from "./serve-agent";
-import { anthropic } from "@ai-sdk/anthropic";
+import { randomBytes } from "node:crypto";
+import {
+  stepCountIs,
+  streamText,
+  tool,
+  type TextStreamPart,
+  type ToolSet,
+} from "ai";
+import {
+  serveAgent,
+  serveAuthedAgent,
+  getRequestCaller,
+  type AgentEvent,
+  type AgentReply,
+  type AgentRequest,
+} from "./serve-agent";
 import { z } from "zod";
 import { AckLabAgent } from "@ack-lab/sdk";
-import { logger } from "./logger";
+import { createDidWebUri, getDidResolver } from "agentcommercekit";
+import { getCorrelationId, logger } from "./logger";
+import { createCatalogue, type Catalogue } from "./catalogue";
+import type {
+  PendingNegotiation,
+  SubscriptionGrant,
+  VerifiedReceipt,
+} from "./data-models";
+import { searchCatalogue } from "./catalogue-search";
+import {
+  createPricingStrategy,
+  type PricingDecision,
+} from "./pricing-strategies";
+import { validateInvoiceRequest } from "./invoice-validation";
+import { validateReceiptForDelivery } from "./receipt-validation";
+import {
+  createNegotiationStore,
+  type NegotiationStore,
+  type StoreConfig,
+  type StoreDriver,
+} from "./negotiation-store";
+import { createAccessToken } from "./access-tokens";
+import { createBuyerLedger } from "./buyer-ledger";
+import { verifyPaymentRequestForPurchase } from "./payment-request-verification";
+import type { AckLabClient } from "./ack-lab-client";
+import { createMockAckLab } from "./mock-ack-lab";
+import { createDownloadRoutes } from "./download-routes";
+import {
+  createAuditTrail,
+  createConversationAuditor,
+  withToolAudit,
+  type AuditTrail,
+} from "./audit-trail";
+import { createAdminRoutes } from "./admin-routes";
+import { createAgentCard } from "./agent-card";
+import { createAuditRoutes } from "./audit-routes";
+import { Hono } from "hono";
+import {
+  createSessionStore,
+  type ConversationSession,
+} from "./conversation-sessions";
+import { createAgentModel, readAgentModelConfig } from "./agent-models";
+import { loadSellerInstances, withInstanceSuffix } from "./seller-instances";
+import { compareSellerOffers, createSellerDirectory } from "./seller-directory";
+import { findBundle, parseBundleDiscounts, parseBundleId } from "./bundles";
+import { licenseResource } from "./licenses";
+import {
+  createSubscriptionId,
+  createSubscriptionOffer,
+  extendGrant,
+  isGrantActive,
+  parseSubscriptionId,
+} from "./subscriptions";
+import { decodeJwtPayload, readReceiptDetails } from "./receipts";
+import { createDisputeDesk } from "./disputes";
+import {
+  auditedTransition,
+  describeState,
+  hasEnded,
+  isNegotiable,
+  isStale,
+} from "./negotiation-lifecycle";
+import {
+  createNegotiationSweeper,
+  type NegotiationSweeper,
+} from "./negotiation-sweeper";
 
 // ===== Configuration =====
+function parseList(value: string | undefined): string[] | undefined {
+  const items = value?.split(",").filter(Boolean);
+  return items?.length ? items : undefined;
+}
+
+// "http://localhost:7578=agent_123,..." -> the payee each seller URL must name
+function parseSellerPayees(value: string | undefined): Map<string, string> {
+  return new Map(
+    (parseList(value) ?? []).map((entry) => {
+      const separator = entry.lastIndexOf("=");
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error(
+          `EXPECTED_SELLER_PAYEES entries must look like <seller URL>=<payee>, got "${entry}"`
+        );
+      }
+      return [entry.slice(0, separator), entry.slice(separator + 1)];
+    })
+  );
+}
+
+const BUYER_PORT = parseInt(process.env.BUYER_PORT || "7576");
+const SELLER_PORT = parseInt(process.env.SELLER_PORT || "7577");
+
 const CONFIG = {
   DECODE_JWT: true,
   BUYER_BUDGET: parseInt(process.env.BUYER_BUDGET || "10"),
-  MIN_PRICES: {
-    housing: 8,
-    ticker: 10,
-    llm_paper: 12,
+  BUYER_MAX_PER_PURCHASE: parseInt(
+    process.env.BUYER_MAX_PER_PURCHASE || process.env.BUYER_BUDGET || "10"
+  ),
+  // What the buyer declares it will use data for, when a seller prices by use
+  BUYER_INTENDED_USE: process.env.BUYER_INTENDED_USE || "academic",
+  CATALOGUE_PATH: process.env.CATALOGUE_PATH || "catalogue.json",
+  // Extra seller instances to run next to the main seller
+  SELLERS_CONFIG: process.env.SELLERS_CONFIG || "",
+  // Sellers the buyer shops at; defaults to every seller started here
+  BUYER_SELLER_URLS: parseList(process.env.SELLER_URLS),
+  NEGOTIATION: {
+    maxRounds: parseInt(process.env.NEGOTIATION_MAX_ROUNDS || "5"),
+    timeouts: {
+      negotiationTtlMs:
+        parseInt(process.env.NEGOTIATION_TTL_MINUTES || "30") * 60 * 1000,
+      invoiceTtlMs:
+        parseInt(process.env.INVOICE_TTL_MINUTES || "60") * 60 * 1000,
+      retentionMs:
+        parseInt(process.env.NEGOTIATION_RETENTION_HOURS || "24") *
+        60 *
+        60 *
+        1000,
+    },
+    sweepIntervalMs:
+      parseInt(process.env.NEGOTIATION_SWEEP_SECONDS || "60") * 1000,
+  },
+  BUNDLES: {
+    discounts: parseBundleDiscounts(
+      process.env.BUNDLE_DISCOUNTS ?? "2:0.1,3:0.15"
+    ),
+  },
+  MODEL: {
+    buyer: readAgentModelConfig("buyer", { maxSteps: 12 }),
+    seller: readAgentModelConfig("seller", { maxSteps: 8 }),
+    fixturePath:
+      process.env.SCRIPTED_MODEL_FIXTURE || "fixtures/scripted-purchase.json",
+  },
+  SESSIONS: {
+    ttlMs: parseInt(process.env.SESSION_TTL_MINUTES || "30") * 60 * 1000,
+    maxMessages: parseInt(process.env.SESSION_MAX_MESSAGES || "50"),
   },
   PORTS: {
-    buyer: 7576,
-    seller: 7577,
+    buyer: BUYER_PORT,
+    seller: SELLER_PORT,
+  },
+  STORE: {
+    driver: (process.env.MARKETPLACE_STORE || "memory") as StoreDriver,
+    filePath:
+      process.env.MARKETPLACE_STORE_PATH || "storage/marketplace-store.json",
+  },
+  AUDIT: {
+    driver: (process.env.MARKETPLACE_STORE || "memory") as StoreDriver,
+    filePath: process.env.AUDIT_TRAIL_PATH || "storage/audit-trail.jsonl",
+  },
+  ADMIN: {
+    apiToken: process.env.ADMIN_API_TOKEN || "",
+  },
+  DOWNLOADS: {
+    dataDir: process.env.DATA_DIR || "data",
+    publicUrl:
+      process.env.SELLER_PUBLIC_URL || `http://localhost:${SELLER_PORT}`,
+    tokenSecret: process.env.ACCESS_TOKEN_SECRET || "",
+    tokenTtlHours: parseInt(process.env.ACCESS_TOKEN_TTL_HOURS || "48"),
+  },
+  PAYMENT_VERIFICATION: {
+    trustedIssuers: parseList(process.env.TRUSTED_PAYMENT_REQUEST_ISSUERS),
+    expectedPayees: parseSellerPayees(process.env.EXPECTED_SELLER_PAYEES),
   },
   API: {
-    baseUrl: process.env.ACK_LAB_BASE_URL ?? "https://api.ack-lab.com",
+    mode: process.env.ACK_LAB_MODE === "mock" ? "mock" : "live",
+    baseUrl:
+      process.env.ACK_LAB_BASE_URL ??
+      (process.env.ACK_LAB_MODE === "mock"
+        ? "http://localhost:7580"
+        : "https://api.ack-lab.com"),
+    mockBuyerBalance: parseInt(process.env.MOCK_ACK_LAB_BUYER_BALANCE || "100"),
     marketplaceBuyer: {
       clientId: process.env.ACK_LAB_CLIENT_ID || "",
       clientSecret: process.env.ACK_LAB_CLIENT_SECRET || "",
@@ -34,68 +200,17 @@ const CONFIG = {
   },
 };
 
-// ===== Data Models =====
-interface DataResource {
-  id: string;
-  name: string;
-  description: string;
-  format: string;
-  size: string;
-  listPrice: number;
-  minimumPrice: number;
-  category: string;
-}
-
-interface PendingNegotiation {
-  resource: DataResource;
-  currentOffer: number;
-  negotiationRound: number;
-  paymentRequestId?: string;
-}
+// ===== Transaction Management =====
+// Without a configured secret, tokens only stay valid until the next restart
+const accessTokenSecret =
+  CONFIG.DOWNLOADS.tokenSecret || randomBytes(32).toString("hex");
 
-// ===== Data Catalogue =====
-const dataCatalogue: DataResource[] = [
-  {
-    id: "housing_inventory_2024",
-    name: "US Housing Market Inventory 2024",
-    description:
-      "Comprehensive housing inventory data across all US metropolitan areas for 2024",
-    format: "CSV",
-    size: "12 MB",
-    listPrice: 10,
-    minimumPrice: CONFIG.MIN_PRICES.housing,
-    category: "housing",
-  },
-  {
-    id: "spy_ticker_365d",
-    name: "SPY Minute-Level Ticker Data (365 days)",
-    description:
-      "Minute-by-minute ticker data for SPDR S&P 500 ETF (SPY) for the last 365 days",
-    format: "CSV",
-    size: "5 MB",
-    listPrice: 12,
-    minimumPrice: CONFIG.MIN_PRICES.ticker,
-    category: "ticker",
-  },
-  {
-    id: "llm_benchmark_paper",
-    name: "Comprehensive LLM Benchmarking Study 2024",
-    description:
-      "Academic paper analyzing performance benchmarks of major LLMs with detailed methodology",
-    format: "PDF",
-    size: "2.5 MB",
-    listPrice: 13,
-    minimumPrice: CONFIG.MIN_PRICES.llm_paper,
-    category: "llm_paper",
-  },
-];
+const didResolver = getDidResolver();
 
-// ===== Transaction Management =====
-const pendingNegotiations = new Map<string, PendingNegotiation>();
-const completedTransactions = new Map<
-  string,
-  { resourceId: string; finalPrice: number }
->();
+const buyerLedger = createBuyerLedger({
+  budget: CONFIG.BUYER_BUDGET,
+  maxPerPurchase: CONFIG.BUYER_MAX_PER_PURCHASE,
+});
 
 // ===== SDK Instances =====
 function validateEnvironmentVariables() {
@@ -114,33 +229,115 @@ function validateEnvironmentVariables() {
   }
 }
 
-const marketplaceSellerAgent = new AckLabAgent({
-  baseUrl: CONFIG.API.baseUrl,
-  clientId: CONFIG.API.marketplaceSeller.clientId,
-  clientSecret: CONFIG.API.marketplaceSeller.clientSecret,
-  agentId: CONFIG.API.marketplaceSeller.agentId,
-});
-
-const marketplaceBuyerAgent = new AckLabAgent({
-  baseUrl: CONFIG.API.baseUrl,
-  clientId: CONFIG.API.marketplaceBuyer.clientId,
-  clientSecret: CONFIG.API.marketplaceBuyer.clientSecret,
-  agentId: CONFIG.API.marketplaceBuyer.agentId,
-});
+const mockAckLab =
+  CONFIG.API.mode === "mock"
+    ? await createMockAckLab({ baseUrl: CONFIG.API.baseUrl })
+    : undefined;
 
-const callAgent = marketplaceBuyerAgent.createAgentCaller(
-  `http://localhost:${CONFIG.PORTS.seller}/chat`,
-  z.string(),
-  z.string()
+const mockBuyerAgent = await mockAckLab?.createAgent(
+  CONFIG.API.marketplaceBuyer.agentId || "marketplace-buyer",
+  { balance: CONFIG.API.mockBuyerBalance }
 );
 
-// ===== Helper Functions =====
-function generateAccessToken(resourceId: string): string {
-  const timestamp = Date.now();
-  const random = Math.random().toString(36).substring(2, 15);
-  return `access_${resourceId}_${timestamp}_${random}`;
+const marketplaceBuyerAgent: AckLabClient =
+  mockBuyerAgent ??
+  new AckLabAgent({
+    baseUrl: CONFIG.API.baseUrl,
+    clientId: CONFIG.API.marketplaceBuyer.clientId,
+    clientSecret: CONFIG.API.marketplaceBuyer.clientSecret,
+    agentId: CONFIG.API.marketplaceBuyer.agentId,
+  });
+
+/**
+ * Creates a seller's ACK-Lab agent and the identifier payments to it name
+ * as their recipient: its agent ID with the real API, and with the mock
+ * one too when an agent ID is configured; otherwise its did:key.
+ */
+async function createSellerAgent(
+  agentId: string,
+  mockAgentId: string
+): Promise<{ agent: AckLabClient; payee: string }> {
+  if (mockAckLab) {
+    const agent = await mockAckLab.createAgent(agentId || mockAgentId, {
+      payeeByAgentId: Boolean(agentId),
+    });
+    return { agent, payee: agentId || agent.did };
+  }
+
+  return {
+    agent: new AckLabAgent({
+      baseUrl: CONFIG.API.baseUrl,
+      clientId: CONFIG.API.marketplaceSeller.clientId,
+      clientSecret: CONFIG.API.marketplaceSeller.clientSecret,
+      agentId,
+    }),
+    payee: agentId,
+  };
+}
+
+// Payment requests are signed by ACK-Lab itself (or the mock standing in
+// for it), unless configured otherwise
+const trustedPaymentRequestIssuers = CONFIG.PAYMENT_VERIFICATION
+  .trustedIssuers ?? [
+  mockAckLab?.issuerDid ?? createDidWebUri(CONFIG.API.baseUrl),
+];
+
+const sellerCallers = new Map<string, ReturnType<typeof createSellerCaller>>();
+
+function createSellerCaller(chatUrl: string) {
+  return marketplaceBuyerAgent.createAgentCaller(
+    chatUrl,
+    z.object({
+      message: z.string(),
+      sessionId: z.string().optional(),
+      correlationId: z.string().optional(),
+    }),
+    z.object({ text: z.string(), sessionId: z.string().optional() })
+  );
+}
+
+function getSellerCaller(chatUrl: string) {
+  let caller = sellerCallers.get(chatUrl);
+  if (!caller) {
+    caller = createSellerCaller(chatUrl);
+    sellerCallers.set(chatUrl, caller);
+  }
+  return caller;
+}
+
+// ===== Conversation Sessions =====
+interface BuyerSessionState {
+  researchTopic: string;
+  // The buyer keeps one conversation going with each seller per session,
+  // keyed by the seller's URL
+  sellerSessionIds: Record<string, string>;
+  // Every URL a seller sent, such as a payment request, mapped to that
+  // seller's URL, so a payment request is only paid to the seller it came from
+  receivedUrls: Record<string, string>;
 }
 
+const buyerSessions = createSessionStore<BuyerSessionState>(
+  () => ({
+    researchTopic: getRandomResearchTopic(),
+    sellerSessionIds: {},
+    receivedUrls: {},
+  }),
+  CONFIG.SESSIONS
+);
+
+// ===== Language Models =====
+const sellerModel = createAgentModel(
+  "seller",
+  CONFIG.MODEL.seller,
+  CONFIG.MODEL.fixturePath
+);
+const buyerModel = createAgentModel(
+  "buyer",
+  CONFIG.MODEL.buyer,
+  CONFIG.MODEL.fixturePath
+);
+
+// ===== Helper Functions =====
 function getRandomResearchTopic(): string {
   const topics = [
     "housing market inventory",
@@ -150,16 +347,6 @@ function getRandomResearchTopic(): string {
   return topics[Math.floor(Math.random() * topics.length)];
 }
 
-function decodeJwtPayload(token: string): object | null {
-  try {
-    const tokenParts = token.split(".");
-    if (tokenParts.length !== 3) return null;
-    return JSON.parse(Buffer.from(tokenParts[1], "base64").toString());
-  } catch {
-    return null;
-  }
-}
-
 function logJwtIfEnabled(token: string, description: string) {
   if (!CONFIG.DECODE_JWT) return;
 
@@ -171,247 +358,1264 @@ function logJwtIfEnabled(token: string, description: string) {
   }
 }
 
-function findResourceByQuery(query: string): DataResource | undefined {
-  const lowerQuery = query.toLowerCase();
-
-  if (lowerQuery.includes("housing") || lowerQuery.includes("real estate")) {
-    return dataCatalogue.find((r) => r.category === "housing");
-  }
-
-  if (
-    lowerQuery.includes("ticker") ||
-    lowerQuery.includes("spy") ||
-    lowerQuery.includes("s&p")
-  ) {
-    return dataCatalogue.find((r) => r.category === "ticker");
+/**
+ * Reports what the agent is doing as it happens. Errors from the model
+ * arrive in the stream too, so they are rethrown here to fail the turn.
+ */
+async function forwardAgentEvents(
+  stream: AsyncIterable<TextStreamPart<ToolSet>>,
+  onEvent?: (event: AgentEvent) => void
+) {
+  for await (const part of stream) {
+    switch (part.type) {
+      case "text-delta":
+        onEvent?.({ type: "text-delta", delta: part.text });
+        break;
+      case "tool-call":
+        onEvent?.({
+          type: "tool-call",
+          toolName: part.toolName,
+          input: part.input,
+        });
+        break;
+      case "tool-result":
+        onEvent?.({
+          type: "tool-result",
+          toolName: part.toolName,
+          output: part.output,
+        });
+        break;
+      case "tool-error":
+        onEvent?.({
+          type: "tool-error",
+          toolName: part.toolName,
+          error:
+            part.error instanceof Error
+              ? part.error.message
+              : String(part.error),
+        });
+        break;
+      case "error":
+        throw part.error;
+    }
   }
+}
 
-  if (lowerQuery.includes("llm") || lowerQuery.includes("language model")) {
-    return dataCatalogue.find((r) => r.category === "llm_paper");
-  }
+// ===== Marketplace Seller =====
+interface MarketplaceSellerOptions {
+  name: string;
+  port: number;
+  publicUrl: string;
+  cataloguePath: string;
+  store: StoreConfig;
+  audit: StoreConfig;
+  agentId: string;
+  mockAgentId: string;
+}
 
-  return undefined;
+export interface MarketplaceSeller {
+  name: string;
+  port: number;
+  publicUrl: string;
+  // What payments to this seller name as their recipient
+  payee: string;
+  dataCatalogue: Catalogue;
+  negotiationStore: NegotiationStore;
+  auditTrail: AuditTrail;
+  negotiationSweeper: NegotiationSweeper;
+  start(): ReturnType<typeof serveAuthedAgent>;
 }
 
-// ===== Marketplace Seller Tools =====
-const sellerTools = {
-  findMatchingResource: tool({
-    description: "Find a resource that matches the user's research needs",
-    inputSchema: z.object({
-      query: z.string().describe("What the user is looking for"),
-    }),
-    execute: async ({ query }) => {
-      logger.process("Searching catalogue", { query });
+/**
+ * A seller with its own catalogue, negotiation state, audit trail and
+ * ACK-Lab agent. Several can run side by side, so the buyer has competing
+ * sellers to shop at.
+ */
+async function createMarketplaceSeller({
+  name,
+  port,
+  publicUrl,
+  cataloguePath,
+  store,
+  audit,
+  agentId,
+  mockAgentId,
+}: MarketplaceSellerOptions): Promise<MarketplaceSeller> {
+  const dataCatalogue = createCatalogue(cataloguePath);
+  const negotiationStore = createNegotiationStore(store);
+  const auditTrail = createAuditTrail(audit);
+  const { agent: marketplaceSellerAgent, payee } = await createSellerAgent(
+    agentId,
+    mockAgentId
+  );
+
+  const disputeDesk = createDisputeDesk({
+    agent: marketplaceSellerAgent,
+    negotiationStore,
+    auditTrail,
+    resolver: didResolver,
+    trustedIssuers: trustedPaymentRequestIssuers,
+  });
 
-      const matchedResource = findResourceByQuery(query);
+  const negotiationSweeper = createNegotiationSweeper({
+    negotiationStore,
+    auditTrail,
+    timeouts: CONFIG.NEGOTIATION.timeouts,
+  });
 
-      if (matchedResource) {
-        logger.success("Found matching resource", matchedResource.name);
-        return {
-          found: true,
-          resource: matchedResource,
-        };
+  // The sweeper only runs every so often, so a negotiation that has gone
+  // stale since is expired when a tool next touches it
+  async function expireIfStale<T extends PendingNegotiation | undefined>(
+    negotiationId: string,
+    negotiation: T
+  ): Promise<T> {
+    if (negotiation && isStale(negotiation, CONFIG.NEGOTIATION.timeouts)) {
+      const from = negotiation.state;
+      const moved = await auditedTransition(
+        auditTrail,
+        negotiationId,
+        negotiation,
+        "expired"
+      );
+      if (moved.ok) {
+        await negotiationStore.saveNegotiation(negotiationId, negotiation);
+        await auditTrail.record(negotiationId, "negotiation-expired", { from });
       }
+    }
+    return negotiation;
+  }
+
+  const sellerSessions = createSessionStore(
+    () => ({ auditor: createConversationAuditor(auditTrail) }),
+    CONFIG.SESSIONS
+  );
 
+  // Bundle and subscription IDs are priced from the current catalogue each
+  // time, the same way single resources are. Resources with license tiers
+  // are priced for the buyer's intended use
+  const findOffer = (
+    resourceId: string,
+    intendedUse?: string
+  ):
+    | {
+        found: true;
+        offer: Pick<
+          PendingNegotiation,
+          "resource" | "bundleItems" | "subscription" | "license"
+        >;
+      }
+    | { found: false; error: string } => {
+    const subscribedId = parseSubscriptionId(resourceId);
+    if (subscribedId) {
+      const resource = dataCatalogue.findById(subscribedId);
+      const subscription = resource?.subscription;
+      const offer = resource && createSubscriptionOffer(resource);
+      if (!subscription || !offer) {
+        return { found: false, error: "No subscription for this resource" };
+      }
       return {
-        found: false,
-        message: "No matching resources found in our catalogue",
+        found: true,
+        offer: {
+          resource: offer,
+          subscription: {
+            resourceId: subscribedId,
+            periodDays: subscription.periodDays,
+          },
+        },
       };
-    },
-  }),
+    }
+
+    const itemIds = parseBundleId(resourceId);
+    if (!itemIds) {
+      const resource = dataCatalogue.findById(resourceId);
+      if (!resource) return { found: false, error: "Resource not found" };
+
+      const result = licenseResource(resource, intendedUse);
+      return result.licensed
+        ? {
+            found: true,
+            offer: { resource: result.resource, license: result.license },
+          }
+        : { found: false, error: result.error };
+    }
+
+    const result = findBundle(
+      itemIds,
+      dataCatalogue.findById,
+      CONFIG.BUNDLES.discounts,
+      intendedUse
+    );
+    return result.found
+      ? {
+          found: true,
+          offer: {
+            resource: result.bundle.resource,
+            bundleItems: result.bundle.items,
+            license: result.bundle.license,
+          },
+        }
+      : result;
+  };
+
+  const sellerTools = {
+    findMatchingResource: tool({
+      description:
+        "Search the catalogue for resources matching the user's research needs. Returns ranked matches with relevance scores, plus near-misses that only partially match",
+      inputSchema: z.object({
+        query: z.string().describe("What the user is looking for"),
+      }),
+      execute: async ({ query }) => {
+        logger.process("Searching catalogue", { query });
+
+        const { matches, nearMisses, unmatchedTerms } = searchCatalogue(
+          dataCatalogue.getResources(),
+          query
+        );
 
-  negotiatePrice: tool({
-    description: "Handle price negotiation for a resource",
-    inputSchema: z.object({
-      resourceId: z.string().describe("ID of the resource being negotiated"),
-      offeredPrice: z.number().describe("Price offered by the buyer"),
-      negotiationId: z
-        .string()
-        .describe("Unique ID for this negotiation session"),
-    }),
-    execute: async ({ resourceId, offeredPrice, negotiationId }) => {
-      const resource = dataCatalogue.find((r) => r.id === resourceId);
-      if (!resource) return { error: "Resource not found" };
+        if (matches.length > 0) {
+          logger.success(
+            "Found matching resources",
+            matches.map((m) => `${m.resource.name} (${m.relevance})`).join(", ")
+          );
+          return {
+            found: true,
+            bestMatch: matches[0].resource,
+            matches,
+            alternatives: nearMisses,
+            unmatchedTerms,
+          };
+        }
 
-      let negotiation = pendingNegotiations.get(negotiationId);
-      if (!negotiation) {
-        negotiation = {
-          resource,
-          currentOffer: offeredPrice,
-          negotiationRound: 1,
+        return {
+          found: false,
+          message: "No matching resources found in our catalogue",
+          nearMisses,
+          unmatchedTerms,
         };
-        pendingNegotiations.set(negotiationId, negotiation);
-      } else {
-        negotiation.currentOffer = offeredPrice;
-        negotiation.negotiationRound++;
-      }
+      },
+    }),
 
-      logger.market("Negotiation", {
-        Resource: resource.name,
-        Offered: `$${offeredPrice}`,
-        "List price": `$${resource.listPrice}`,
-        Minimum: `$${resource.minimumPrice}`,
-      });
+    quoteBundle: tool({
+      description:
+        "Price several resources bought together. Returns a bundle ID to use as the resourceId in negotiatePrice and createDataPaymentRequest, so the whole bundle is negotiated and paid for at once",
+      inputSchema: z.object({
+        resourceIds: z
+          .array(z.string())
+          .min(2)
+          .describe("IDs of the resources the buyer wants together"),
+        intendedUse: z
+          .string()
+          .optional()
+          .describe(
+            "What the buyer will use the data for, e.g. academic or commercial"
+          ),
+      }),
+      execute: async ({ resourceIds, intendedUse }) => {
+        const result = findBundle(
+          resourceIds,
+          dataCatalogue.findById,
+          CONFIG.BUNDLES.discounts,
+          intendedUse
+        );
+        if (!result.found) return { error: result.error };
+
+        const { resource, items, discount, license } = result.bundle;
+        logger.market("Bundle quote", {
+          Bundle: resource.name,
+          "Items list price": `$${items.reduce((sum, i) => sum + i.listPrice, 0)}`,
+          Discount: `${discount * 100}%`,
+          "List price": `$${resource.listPrice}`,
+        });
 
-      if (offeredPrice >= resource.listPrice) {
         return {
-          accepted: true,
-          finalPrice: resource.listPrice,
-          message: "Offer accepted at list price",
+          bundleId: resource.id,
+          name: resource.name,
+          items: items.map(({ id, name, listPrice }) => ({
+            id,
+            name,
+            listPrice,
+          })),
+          discount,
+          listPrice: resource.listPrice,
+          license,
+          message: `All ${items.length} resources for $${resource.listPrice}, with one payment`,
         };
-      }
+      },
+    }),
+
+    negotiatePrice: tool({
+      description:
+        "Handle price negotiation for a resource or bundle. Prices are totals for the requested quantity",
+      inputSchema: z.object({
+        resourceId: z
+          .string()
+          .describe("ID of the resource, or bundle ID, being negotiated"),
+        offeredPrice: z.number().describe("Price offered by the buyer"),
+        negotiationId: z
+          .string()
+          .describe("Unique ID for this negotiation session"),
+        quantity: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            "Number of licensed seats the buyer wants, 1 if not given. Fixed once the negotiation has started"
+          ),
+        renewGrantId: z
+          .string()
+          .optional()
+          .describe(
+            "When renewing a subscription, the grant ID from its first purchase"
+          ),
+        intendedUse: z
+          .string()
+          .optional()
+          .describe(
+            "What the buyer will use the data for, e.g. academic or commercial. Required for resources with license tiers"
+          ),
+      }),
+      execute: async ({
+        resourceId,
+        offeredPrice,
+        negotiationId,
+        quantity,
+        renewGrantId,
+        intendedUse,
+      }) => {
+        let negotiation = await expireIfStale(
+          negotiationId,
+          await negotiationStore.getNegotiation(negotiationId)
+        );
+
+        if (negotiation && !isNegotiable(negotiation)) {
+          await auditTrail.record(negotiationId, "offer", {
+            resourceId,
+            offeredPrice,
+            refused: `negotiation already ${negotiation.state}`,
+          });
+          return {
+            accepted: false,
+            closed: hasEnded(negotiation),
+            state: negotiation.state,
+            message: describeState(negotiation),
+          };
+        }
+
+        // Later rounds are priced from the resource, license and quantity the
+        // negotiation started with, so changing any of them needs a
+        // negotiation of its own
+        if (negotiation && resourceId !== negotiation.resource.id) {
+          await auditTrail.record(negotiationId, "offer", {
+            resourceId,
+            offeredPrice,
+            refused: `negotiation is for ${negotiation.resource.id}`,
+          });
+          return {
+            accepted: false,
+            error: `This negotiation is for ${negotiation.resource.name}. Start a new negotiation to buy ${resourceId}`,
+          };
+        }
+
+        if (
+          negotiation &&
+          quantity !== undefined &&
+          quantity !== negotiation.quantity
+        ) {
+          await auditTrail.record(negotiationId, "offer", {
+            resourceId,
+            offeredPrice,
+            quantity,
+            refused: `negotiation is for quantity ${negotiation.quantity}`,
+          });
+          return {
+            accepted: false,
+            error: `This negotiation is for ${negotiation.quantity} seat(s). Start a new negotiation to buy ${quantity}`,
+          };
+        }
+
+        if (!negotiation) {
+          const found = findOffer(resourceId, intendedUse);
+          if (!found.found) return { error: found.error };
+          const { offer } = found;
+
+          if (renewGrantId) {
+            const grant = await negotiationStore.getGrant(renewGrantId);
+            if (
+              !offer.subscription ||
+              grant?.resourceId !== offer.subscription.resourceId
+            ) {
+              return {
+                error: `No subscription grant ${renewGrantId} for ${resourceId}`,
+              };
+            }
+            // Only the buyer a grant was made to can renew it
+            if (grant.buyer !== getRequestCaller()) {
+              await auditTrail.record(negotiationId, "offer", {
+                resourceId,
+                offeredPrice,
+                refused: `grant ${renewGrantId} belongs to another buyer`,
+              });
+              return {
+                error: `Subscription grant ${renewGrantId} was granted to another buyer`,
+              };
+            }
+            if (grant.revokedAt) {
+              return {
+                error: `Subscription grant ${renewGrantId} was revoked after its payments were refunded`,
+              };
+            }
+          }
+
+          negotiation = {
+            state: "open",
+            updatedAt: new Date().toISOString(),
+            buyer: getRequestCaller(),
+            resource: offer.resource,
+            bundleItems: offer.bundleItems,
+            subscription: offer.subscription && {
+              ...offer.subscription,
+              renewsGrantId: renewGrantId,
+            },
+            license: offer.license,
+            currentOffer: offeredPrice,
+            negotiationRound: 1,
+            quantity: quantity ?? 1,
+          };
+        } else {
+          negotiation.currentOffer = offeredPrice;
+          negotiation.negotiationRound++;
+        }
+        const { resource } = negotiation;
+
+        // Meeting our last counter-offer always closes the deal, even when it
+        // was made in the final round
+        const meetsCounterOffer =
+          negotiation.counterOffer !== undefined &&
+          offeredPrice >= negotiation.counterOffer;
+
+        const maxRounds = resource.maxRounds ?? CONFIG.NEGOTIATION.maxRounds;
+
+        await auditTrail.record(negotiationId, "offer", {
+          resourceId,
+          offeredPrice,
+          quantity: negotiation.quantity,
+          round: negotiation.negotiationRound,
+        });
+
+        if (!meetsCounterOffer && negotiation.negotiationRound > maxRounds) {
+          const closed = await auditedTransition(
+            auditTrail,
+            negotiationId,
+            negotiation,
+            "closed"
+          );
+          if (!closed.ok) return { accepted: false, error: closed.error };
+          await negotiationStore.saveNegotiation(negotiationId, negotiation);
+          await auditTrail.record(negotiationId, "negotiation-closed", {
+            reason: `No agreement after ${maxRounds} rounds`,
+          });
+
+          logger.warn(
+            "Negotiation closed",
+            `${resource.name} after ${maxRounds} rounds`
+          );
+          return {
+            accepted: false,
+            closed: true,
+            message: `Negotiation closed after ${maxRounds} rounds without agreement`,
+          };
+        }
+
+        const listPrice = resource.listPrice * negotiation.quantity;
+        const minimumPrice = resource.minimumPrice * negotiation.quantity;
+
+        logger.market("Negotiation", {
+          Resource: resource.name,
+          Quantity: negotiation.quantity,
+          Offered: `$${offeredPrice}`,
+          "List price": `$${listPrice}`,
+          Minimum: `$${minimumPrice}`,
+          Strategy: resource.pricingStrategy.type,
+          Round: `${negotiation.negotiationRound}/${maxRounds}`,
+        });
+
+        const decision: PricingDecision = meetsCounterOffer
+          ? { accepted: true, price: Math.min(offeredPrice, listPrice) }
+          : createPricingStrategy(resource.pricingStrategy).decide({
+              listPrice,
+              minimumPrice,
+              offeredPrice,
+              quantity: negotiation.quantity,
+              round: negotiation.negotiationRound,
+              maxRounds,
+            });
+
+        // A new offer replaces any earlier agreement until it is accepted too
+        negotiation.agreedPrice = decision.accepted
+          ? decision.price
+          : undefined;
+        negotiation.counterOffer = decision.accepted
+          ? undefined
+          : decision.counterOffer;
+        const moved = await auditedTransition(
+          auditTrail,
+          negotiationId,
+          negotiation,
+          decision.accepted ? "agreed" : "countered"
+        );
+        if (!moved.ok) return { accepted: false, error: moved.error };
+        await negotiationStore.saveNegotiation(negotiationId, negotiation);
+
+        await auditTrail.record(
+          negotiationId,
+          decision.accepted ? "offer-accepted" : "counter-offer",
+          decision.accepted
+            ? { price: decision.price }
+            : { counterOffer: decision.counterOffer }
+        );
+
+        if (decision.accepted) {
+          return {
+            accepted: true,
+            finalPrice: decision.price,
+            message:
+              decision.price === listPrice
+                ? "Offer accepted at list price"
+                : "Offer accepted",
+          };
+        }
+
+        const roundsRemaining = maxRounds - negotiation.negotiationRound;
 
-      if (offeredPrice >= resource.minimumPrice) {
         return {
-          accepted: true,
-          finalPrice: offeredPrice,
-          message: "Offer accepted",
+          accepted: false,
+          counterOffer: decision.counterOffer,
+          roundsRemaining,
+          message:
+            roundsRemaining === 0
+              ? `Cannot accept $${offeredPrice}. Our final offer is $${decision.counterOffer}.`
+              : `Cannot accept $${offeredPrice}. Would you accept $${decision.counterOffer}?`,
         };
-      }
+      },
+    }),
 
-      const counterOffer = Math.max(
-        resource.minimumPrice,
-        Math.floor((offeredPrice + resource.listPrice) / 2)
-      );
+    createDataPaymentRequest: tool({
+      description: "Create a payment request for agreed data purchase",
+      inputSchema: z.object({
+        resourceId: z
+          .string()
+          .describe("ID of the resource, or bundle ID, being purchased"),
+        agreedPrice: z.number().describe("Final agreed price"),
+        negotiationId: z.string().describe("Negotiation session ID"),
+      }),
+      execute: async ({ resourceId, agreedPrice, negotiationId }) => {
+        const negotiation = await expireIfStale(
+          negotiationId,
+          await negotiationStore.getNegotiation(negotiationId)
+        );
+        const found = findOffer(resourceId, negotiation?.license?.use);
+        if (!found.found) return { error: found.error };
+        const { resource, license } = found.offer;
 
-      return {
-        accepted: false,
-        counterOffer,
-        minimumPrice: resource.minimumPrice,
-        message: `Cannot accept $${offeredPrice}. Minimum price is $${resource.minimumPrice}. Would you accept $${counterOffer}?`,
-      };
-    },
-  }),
+        const rejections = validateInvoiceRequest({
+          resource,
+          agreedPrice,
+          negotiation,
+        });
 
-  createDataPaymentRequest: tool({
-    description: "Create a payment request for agreed data purchase",
-    inputSchema: z.object({
-      resourceId: z.string().describe("ID of the resource being purchased"),
-      agreedPrice: z.number().describe("Final agreed price"),
-      negotiationId: z.string().describe("Negotiation session ID"),
+        if (!negotiation || rejections.length > 0) {
+          await auditTrail.record(negotiationId, "payment-request-refused", {
+            resourceId,
+            agreedPrice,
+            reasons: rejections,
+          });
+          logger.warn(
+            "Refused to create payment request",
+            rejections.map((r) => r.message).join("; ")
+          );
+          return {
+            error: "Payment request refused",
+            reasons: rejections,
+          };
+        }
+
+        logger.transaction("Creating payment request", {
+          Resource: resource.name,
+          License: license?.use ?? "standard",
+          "Agreed price": `$${agreedPrice}`,
+        });
+
+        const paymentRequestId = `${resourceId}-${negotiationId}`;
+
+        const { url: paymentRequestUrl } =
+          await marketplaceSellerAgent.createPaymentRequest({
+            id: paymentRequestId,
+            amount: agreedPrice * 100,
+            // The buyer checks the resource name in the description, and
+            // the license terms travel with the payment
+            description: license
+              ? `Purchase: ${resource.name}, ${license.use} license. Terms: ${license.terms}`
+              : `Purchase: ${resource.name}`,
+          });
+
+        const invoiced = await auditedTransition(
+          auditTrail,
+          negotiationId,
+          negotiation,
+          "invoiced"
+        );
+        if (!invoiced.ok) return { error: invoiced.error };
+        negotiation.paymentRequestId = paymentRequestId;
+        await negotiationStore.saveNegotiation(negotiationId, negotiation);
+        await auditTrail.record(negotiationId, "payment-request-created", {
+          paymentRequestId,
+          amount: agreedPrice,
+          paymentRequestUrl,
+        });
+
+        logger.info("Payment request generated", paymentRequestUrl);
+
+        return {
+          paymentRequestUrl,
+          amount: agreedPrice,
+          resource: {
+            name: resource.name,
+            format: resource.format,
+            size: resource.size,
+          },
+          license,
+          instruction: `Please pay $${agreedPrice} using this payment request URL to receive access to the data`,
+        };
+      },
     }),
-    execute: async ({ resourceId, agreedPrice, negotiationId }) => {
-      const resource = dataCatalogue.find((r) => r.id === resourceId);
-      if (!resource) return { error: "Resource not found" };
 
-      logger.transaction("Creating payment request", {
-        Resource: resource.name,
-        "Agreed price": `$${agreedPrice}`,
-      });
+    provideAccessDataURL: tool({
+      description:
+        "Generates direct download URL for confirmed payment using receipt URL",
+      inputSchema: z.object({
+        receiptUrl: z.string().describe("The receipt URL the buyer provided"),
+      }),
+      execute: async ({ receiptUrl }) => {
+        const receiptJwt = await fetch(receiptUrl).then((res) => res.text());
+
+        let paymentRequestId: string;
+        try {
+          ({ paymentRequestId } =
+            await marketplaceSellerAgent.verifyPaymentReceipt(receiptJwt));
+        } catch (error) {
+          // Nothing in an unverified receipt is trusted, but the payment
+          // request it names tells which negotiation it was presented for
+          const claimed = readReceiptDetails(receiptJwt).paymentRequestId;
+          const claimedNegotiation = claimed
+            ? await negotiationStore.findNegotiationByPaymentRequestId(claimed)
+            : undefined;
+          const reason = error instanceof Error ? error.message : String(error);
+          await auditTrail.record(
+            claimedNegotiation?.negotiationId ?? claimed ?? receiptUrl,
+            "receipt-rejected",
+            {
+              paymentRequestId: claimed,
+              receiptUrl,
+              reason: `Receipt could not be verified: ${reason}`,
+            }
+          );
+          logger.warn("Refused to deliver", reason);
+          return { error: "Receipt could not be verified", reason };
+        }
+
+        const completed =
+          await negotiationStore.getTransaction(paymentRequestId);
+        if (completed) {
+          if (completed.negotiationId) {
+            await auditTrail.record(
+              completed.negotiationId,
+              "receipt-rejected",
+              {
+                paymentRequestId,
+                reason: "Transaction already completed",
+              }
+            );
+          }
+          return { error: "This transaction has already been completed" };
+        }
+
+        const found =
+          await negotiationStore.findNegotiationByPaymentRequestId(
+            paymentRequestId
+          );
 
-      const paymentRequestId = `${resourceId}-${negotiationId}`;
+        if (!found) {
+          return { error: "Payment request token not found or invalid" };
+        }
+
+        const { negotiationId, negotiation: foundNegotiation } = found;
+
+        // A disputed payment is only delivered once the dispute is rejected
+        const dispute = await negotiationStore.getDispute(paymentRequestId);
+        if (dispute && dispute.status !== "rejected") {
+          await auditTrail.record(negotiationId, "receipt-rejected", {
+            paymentRequestId,
+            reason: `Payment is disputed and the dispute is ${dispute.status}`,
+          });
+          return {
+            error: `This payment is disputed and the dispute is ${dispute.status}, so it cannot be delivered`,
+          };
+        }
 
-      const { url: paymentRequestUrl } =
-        await marketplaceSellerAgent.createPaymentRequest({
-          id: paymentRequestId,
-          amount: agreedPrice * 100,
-          description: `Purchase: ${resource.name}`,
+        // A receipt presented after its payment request expired is not
+        // honoured; the buyer can dispute the payment instead. A paid
+        // negotiation whose delivery failed can be delivered again
+        if (
+          foundNegotiation.state !== "invoiced" &&
+          foundNegotiation.state !== "paid"
+        ) {
+          await auditTrail.record(negotiationId, "receipt-rejected", {
+            paymentRequestId,
+            reason: `Negotiation is ${foundNegotiation.state}`,
+          });
+          return {
+            error:
+              foundNegotiation.state === "expired"
+                ? "This payment request expired before the receipt was presented. Dispute the payment to be refunded"
+                : `This negotiation is ${foundNegotiation.state} and cannot be delivered`,
+          };
+        }
+
+        // The receipt's signature is verified; what it paid, who paid it and
+        // whether it is still valid have to match the invoice as well
+        const receipt = readReceiptDetails(receiptJwt);
+        const rejections = validateReceiptForDelivery({
+          receipt,
+          negotiation: foundNegotiation,
         });
+        if (rejections.length > 0) {
+          await auditTrail.record(negotiationId, "receipt-rejected", {
+            paymentRequestId,
+            reasons: rejections,
+          });
+          logger.warn(
+            "Refused to deliver",
+            rejections.map((r) => r.message).join("; ")
+          );
+          return { error: "Receipt rejected", reasons: rejections };
+        }
 
-      const negotiation = pendingNegotiations.get(negotiationId);
-      if (negotiation) {
-        negotiation.paymentRequestId = paymentRequestId;
-      } else {
-        pendingNegotiations.set(negotiationId, {
-          resource,
-          currentOffer: agreedPrice,
-          negotiationRound: 1,
+        const buyer = receipt.payer!;
+        const verifiedReceipt: VerifiedReceipt = {
+          receiptUrl,
+          payer: buyer,
+          amount: receipt.amount!,
+          paymentOptionId: receipt.paymentOptionId,
+          expiresAt:
+            receipt.expiresAt === undefined
+              ? undefined
+              : new Date(receipt.expiresAt).toISOString(),
+          verifiedAt: new Date().toISOString(),
+        };
+        await auditTrail.record(negotiationId, "receipt-verified", {
           paymentRequestId,
+          payer: buyer,
+          amount: verifiedReceipt.amount,
         });
-      }
 
-      logger.info("Payment request generated", paymentRequestUrl);
+        if (foundNegotiation.state === "invoiced") {
+          const paid = await auditedTransition(
+            auditTrail,
+            negotiationId,
+            foundNegotiation,
+            "paid"
+          );
+          if (!paid.ok) return { error: paid.error };
+          await negotiationStore.saveNegotiation(
+            negotiationId,
+            foundNegotiation
+          );
+        }
 
-      return {
-        paymentRequestUrl,
-        amount: agreedPrice,
-        resource: {
-          name: resource.name,
-          format: resource.format,
-          size: resource.size,
-        },
-        instruction: `Please pay $${agreedPrice} using this payment request URL to receive access to the data`,
-      };
-    },
-  }),
+        // A subscription payment starts a grant, or extends the one being
+        // renewed, and access lasts until the grant's renewal date
+        const { bundleItems, subscription, license } = foundNegotiation;
+        let grantId: string | undefined;
+        let grant: SubscriptionGrant | undefined;
+        if (subscription) {
+          grantId = subscription.renewsGrantId ?? paymentRequestId;
+          const current = subscription.renewsGrantId
+            ? await negotiationStore.getGrant(grantId)
+            : undefined;
+
+          if (current && current.buyer !== buyer) {
+            await auditTrail.record(negotiationId, "receipt-rejected", {
+              paymentRequestId,
+              reason: "Subscription was granted to another buyer",
+            });
+            return { error: "This subscription was granted to another buyer" };
+          }
+
+          grant = extendGrant(current, {
+            resourceId: subscription.resourceId,
+            buyer,
+            periodDays: subscription.periodDays,
+            paymentRequestId,
+          });
+        }
 
-  provideAccessDataURL: tool({
-    description:
-      "Generates direct download URL for confirmed payment using receipt URL",
-    inputSchema: z.object({
-      receiptUrl: z.string().describe("The receipt URL the buyer provided"),
-    }),
-    execute: async ({ receiptUrl }) => {
-      const receiptJwt = await fetch(receiptUrl).then((res) => res.text());
-
-      const { paymentRequestId } =
-        await marketplaceSellerAgent.verifyPaymentReceipt(receiptJwt);
-
-      let foundNegotiation: PendingNegotiation | undefined;
-      let negotiationId: string | undefined;
-      for (const [id, negotiation] of pendingNegotiations) {
-        if (negotiation.paymentRequestId === paymentRequestId) {
-          foundNegotiation = negotiation;
-          negotiationId = id;
-          break;
+        const expiresAt = grant
+          ? Date.parse(grant.renewsAt)
+          : Date.now() + CONFIG.DOWNLOADS.tokenTtlHours * 60 * 60 * 1000;
+        const validUntil = new Date(expiresAt).toISOString();
+
+        // A bundle is paid for once but each of its resources gets its own
+        // access token and download URL. A subscription delivers the
+        // resource it is for
+        const deliverables = bundleItems ?? [
+          subscription
+            ? { ...foundNegotiation.resource, id: subscription.resourceId }
+            : foundNegotiation.resource,
+        ];
+        const downloads = deliverables.map((resource) => {
+          const accessToken = createAccessToken(
+            {
+              resourceId: resource.id,
+              buyer,
+              paymentRequestId,
+              expiresAt,
+              license: license?.use,
+            },
+            accessTokenSecret
+          );
+          return {
+            resource,
+            accessToken,
+            downloadUrl: `${publicUrl}/download/${resource.id}?token=${accessToken}`,
+          };
+        });
+
+        // Delivered negotiations are removed by the sweeper once past the
+        // retention period; the transaction is the lasting record
+        const delivered = await auditedTransition(
+          auditTrail,
+          negotiationId,
+          foundNegotiation,
+          "delivered"
+        );
+        if (!delivered.ok) return { error: delivered.error };
+        await negotiationStore.saveDelivery({
+          negotiationId,
+          negotiation: foundNegotiation,
+          paymentRequestId,
+          transaction: {
+            resourceId: foundNegotiation.resource.id,
+            resourceIds:
+              bundleItems || subscription
+                ? deliverables.map((resource) => resource.id)
+                : undefined,
+            finalPrice: verifiedReceipt.amount,
+            listPrice:
+              foundNegotiation.resource.listPrice * foundNegotiation.quantity,
+            buyer,
+            negotiationId,
+            grantId,
+            license,
+            receipt: verifiedReceipt,
+          },
+          grant: grantId && grant ? { grantId, grant } : undefined,
+        });
+        await auditTrail.record(negotiationId, "delivered", {
+          resourceId: foundNegotiation.resource.id,
+          resourceIds: bundleItems?.map((item) => item.id),
+          grantId,
+          license: license?.use,
+          buyer,
+          validUntil,
+        });
+
+        for (const { downloadUrl } of downloads) {
+          logger.success("Download URL generated", downloadUrl);
         }
-      }
 
-      if (!foundNegotiation || !negotiationId) {
-        return { error: "Payment request token not found or invalid" };
-      }
+        if (bundleItems) {
+          return {
+            success: true,
+            bundle: foundNegotiation.resource.name,
+            downloads: downloads.map(({ resource, downloadUrl }) => ({
+              resourceId: resource.id,
+              name: resource.name,
+              format: resource.format,
+              size: resource.size,
+              downloadUrl,
+            })),
+            validUntil,
+            license,
+            receiptUrl,
+            message:
+              "Payment confirmed. Here is a direct download URL for each resource in the bundle.",
+          };
+        }
 
-      if (completedTransactions.has(paymentRequestId)) {
-        return { error: "This transaction has already been completed" };
-      }
+        const [{ resource, accessToken, downloadUrl }] = downloads;
+        return {
+          success: true,
+          downloadUrl,
+          resource: {
+            name: resource.name,
+            format: resource.format,
+            size: resource.size,
+          },
+          accessDetails: {
+            url: downloadUrl,
+            validUntil,
+            accessKey: accessToken,
+          },
+          subscription: grant && {
+            grantId,
+            renewsAt: grant.renewsAt,
+            renewals: grant.renewals,
+            renewWith: createSubscriptionId(grant.resourceId),
+          },
+          license,
+          receiptUrl,
+          message:
+            "Payment confirmed. Here is your direct download URL for the data.",
+        };
+      },
+    }),
 
-      const accessToken = generateAccessToken(foundNegotiation.resource.id);
-      const downloadUrl = `https://data-provider.example.com/download/${foundNegotiation.resource.id}?token=${accessToken}`;
+    checkSubscription: tool({
+      description:
+        "Look up a subscription grant to see whether it is active, when it is due for renewal and what a renewal period costs",
+      inputSchema: z.object({
+        grantId: z.string().describe("The grant ID given when subscribing"),
+      }),
+      execute: async ({ grantId }) => {
+        const grant = await negotiationStore.getGrant(grantId);
+        if (!grant) return { error: "Subscription grant not found" };
+
+        const found = findOffer(createSubscriptionId(grant.resourceId));
+        const offer = found.found ? found.offer : undefined;
+        return {
+          grantId,
+          resourceId: grant.resourceId,
+          active: isGrantActive(grant),
+          startedAt: grant.startedAt,
+          renewsAt: grant.renewsAt,
+          renewals: grant.renewals,
+          renewal: offer && {
+            resourceId: offer.resource.id,
+            periodDays: offer.subscription?.periodDays,
+            listPrice: offer.resource.listPrice,
+          },
+        };
+      },
+    }),
 
-      completedTransactions.set(paymentRequestId, {
-        resourceId: foundNegotiation.resource.id,
-        finalPrice: foundNegotiation.currentOffer,
-      });
-      pendingNegotiations.delete(negotiationId);
+    openDispute: tool({
+      description:
+        "Open a dispute over a payment the buyer wants refunded. Returns the dispute, including whether the payment was ever delivered",
+      inputSchema: z.object({
+        receiptUrl: z.string().describe("The receipt URL of the payment"),
+        reason: z.string().describe("Why the buyer wants a refund"),
+        refundRequestUrl: z
+          .string()
+          .describe("The payment request URL the buyer created for the refund"),
+      }),
+      execute: async (claim) => {
+        const result = await disputeDesk.open(claim, getRequestCaller());
+        if (!result.ok) return { error: result.error };
+
+        logger.transaction("Dispute opened", {
+          Payment: result.paymentRequestId,
+          Amount: `$${result.dispute.amount}`,
+          Reason: result.dispute.reason,
+        });
+        return {
+          paymentRequestId: result.paymentRequestId,
+          ...result.dispute,
+        };
+      },
+    }),
 
-      logger.success("Download URL generated", downloadUrl);
+    resolveDispute: tool({
+      description:
+        "Refund the buyer in full for a disputed payment that was never delivered, through their refund payment request. Disputes over delivered payments are refused and left for the seller's staff",
+      inputSchema: z.object({
+        paymentRequestId: z
+          .string()
+          .describe("The payment request ID returned by openDispute"),
+        note: z
+          .string()
+          .optional()
+          .describe("The reason for the refund, shared with the buyer"),
+      }),
+      execute: async ({ paymentRequestId, note }) => {
+        const result = await disputeDesk.refundUndelivered(
+          paymentRequestId,
+          note
+        );
+        if (!result.ok) return { error: result.error };
 
-      return {
-        success: true,
-        downloadUrl,
-        resource: {
-          name: foundNegotiation.resource.name,
-          format: foundNegotiation.resource.format,
-          size: foundNegotiation.resource.size,
-        },
-        accessDetails: {
-          url: downloadUrl,
-          validUntil: "48 hours from now",
-          accessKey: accessToken,
-        },
-        receiptUrl,
-        message:
-          "Payment confirmed. Here is your direct download URL for the data.",
-      };
-    },
-  }),
-};
+        logger.transaction("Dispute resolved", {
+          Payment: paymentRequestId,
+          Status: result.dispute.status,
+        });
+        return { paymentRequestId, ...result.dispute };
+      },
+    }),
+  };
+
+  async function runMarketplaceSeller(
+    { message, sessionId }: AgentRequest,
+    onEvent?: (event: AgentEvent) => void
+  ): Promise<AgentReply> {
+    const session = sellerSessions.getOrCreate(sessionId);
+    const { auditor } = session.state;
+    await auditor.record("message-received", {
+      sessionId: session.id,
+      text: message,
+    });
+
+    const resources = dataCatalogue.getResources();
+
+    const catalogueDescription = resources
+      .map((r) => {
+        const listPrice = r.licenses
+          ? r.licenses
+              .map((t) => `$${t.listPrice} for ${t.use} use (${t.terms})`)
+              .join(", ")
+          : `$${r.listPrice}`;
+        const subscription = r.subscription
+          ? `, or $${r.subscription.listPrice} per ${r.subscription.periodDays} days as subscription ${createSubscriptionId(r.id)}`
+          : "";
+        return `- ${r.name}: ${r.description} (${r.format}, ${r.size}) - List price: ${listPrice}${subscription}`;
+      })
+      .join("\n");
+
+    const minimumPrices = resources
+      .map((r) => {
+        const minimumPrice = r.licenses
+          ? r.licenses.map((t) => `$${t.minimumPrice} ${t.use}`).join(", ")
+          : `$${r.minimumPrice}`;
+        const subscription = r.subscription
+          ? ` ($${r.subscription.minimumPrice} per subscription period)`
+          : "";
+        return `${r.name} ${minimumPrice}${subscription}`;
+      })
+      .join(", ");
+
+    const bundleDiscounts =
+      CONFIG.BUNDLES.discounts
+        .map((t) => `${t.discount * 100}% off ${t.minItems}+ resources`)
+        .join(", ") || "none";
+
+    const result = streamText({
+      model: sellerModel,
+      system: `You are a marketplace seller agent with a catalogue of data resources.
+
+      Your available resources are:
+      ${catalogueDescription}
+
+      WORKFLOW:
+      1. When someone requests data: Use findMatchingResource to identify which resources match their needs
+      2. Present the best match with its list price and ask if they want to proceed. Mention relevant alternatives, and if nothing matches, suggest the closest near-misses
+      3. If they want several resources together: Use quoteBundle with their IDs, then negotiate and invoice the whole bundle using the bundle ID it returns
+      4. If they want ongoing access to a resource with a subscription: Negotiate and invoice its subscription ID. To renew, use checkSubscription with their grant ID and pass it to negotiatePrice as renewGrantId, which extends the existing grant
+      5. If they negotiate: Use negotiatePrice for every offer and relay its counter-offers. Resources priced by use need the buyer's intended use, so ask for it if they have not said and pass it as intendedUse. Never offer a price the tool did not give you, and never go below the minimum price
+      6. Once negotiatePrice has accepted a price: Use createDataPaymentRequest with that exact price to generate a payment request URL. If it is refused, explain the reasons to the buyer
+      7. CRITICAL - When buyer confirms payment with a receipt:
+         a. Use provideAccessDataURL with the receipt URL the buyer provided
+         b. Share the resulting download URL with the buyer, or every download URL for a bundle, and the renewal date for a subscription
+      8. If a buyer disputes a payment: Use openDispute with their receipt URL, reason and refund payment request URL. If the payment was never delivered, refund it with resolveDispute and share the refund receipt URL. Otherwise tell the buyer the seller's staff will review it. Never promise a refund yourself
+
+      DO NOT share the data download URL without calling provideAccessDataURL.
+      DO NOT apologize for technical difficulties or say there's an issue with validation.
+
+      Minimum prices: ${minimumPrices}
+      Bundle discounts: ${bundleDiscounts}
+
+      Payment request URL should be provided between <payment_request_url> and </payment_request_url> markers.`,
+      messages: [...session.messages, { role: "user", content: message }],
+      tools: withToolAudit(sellerTools, auditor),
+      temperature: CONFIG.MODEL.seller.temperature,
+      stopWhen: stepCountIs(CONFIG.MODEL.seller.maxSteps),
+    });
+
+    await forwardAgentEvents(result.fullStream, onEvent);
+    const [text, response] = await Promise.all([result.text, result.response]);
+    await auditor.record("message-sent", { sessionId: session.id, text });
+
+    sellerSessions.appendMessages(session, [
+      { role: "user", content: message },
+      ...response.messages,
+    ]);
+
+    return { text, sessionId: session.id };
+  }
+
+  function createSellerRoutes() {
+    const routes = new Hono();
+
+    routes.route(
+      "/",
+      createDownloadRoutes({
+        dataDir: CONFIG.DOWNLOADS.dataDir,
+        secret: accessTokenSecret,
+        findResource: (resourceId) => dataCatalogue.findById(resourceId),
+        findTransaction: (paymentRequestId) =>
+          negotiationStore.getTransaction(paymentRequestId),
+      })
+    );
+
+    if (CONFIG.ADMIN.apiToken) {
+      routes.route(
+        "/",
+        createAuditRoutes({ auditTrail, apiToken: CONFIG.ADMIN.apiToken })
+      );
+      routes.route(
+        "/",
+        createAdminRoutes({
+          apiToken: CONFIG.ADMIN.apiToken,
+          catalogue: dataCatalogue,
+          negotiationStore,
+          auditTrail,
+          disputeDesk,
+          defaultMaxRounds: CONFIG.NEGOTIATION.maxRounds,
+        })
+      );
+    } else {
+      logger.info(
+        "Admin and audit routes disabled",
+        "Set ADMIN_API_TOKEN to manage the seller and read audit trails over HTTP"
+      );
+    }
+
+    return routes;
+  }
+
+  return {
+    name,
+    port,
+    publicUrl,
+    payee,
+    dataCatalogue,
+    negotiationStore,
+    auditTrail,
+    negotiationSweeper,
+    start: () =>
+      serveAuthedAgent({
+        port,
+        runAgent: runMarketplaceSeller,
+        agent: marketplaceSellerAgent,
+        decodeJwt: CONFIG.DECODE_JWT,
+        agentCard: () =>
+          createAgentCard({
+            name,
+            description:
+              "Sells research datasets and reports. Prices are negotiable down to a private minimum, and purchases are paid through ACK-Lab.",
+            publicUrl,
+            did: payee,
+            paymentRequestIssuers: trustedPaymentRequestIssuers,
+            resources: dataCatalogue.getResources(),
+            bundleDiscounts: CONFIG.BUNDLES.discounts,
+          }),
+        routes: createSellerRoutes(),
+      }),
+  };
+}
+
+// ===== Marketplace Sellers =====
+const mainSeller = await createMarketplaceSeller({
+  name: "Marketplace Seller",
+  port: CONFIG.PORTS.seller,
+  publicUrl: CONFIG.DOWNLOADS.publicUrl,
+  cataloguePath: CONFIG.CATALOGUE_PATH,
+  store: CONFIG.STORE,
+  audit: CONFIG.AUDIT,
+  agentId: CONFIG.API.marketplaceSeller.agentId,
+  mockAgentId: "marketplace-seller",
+});
+
+const sellers: MarketplaceSeller[] = [mainSeller];
+for (const instance of CONFIG.SELLERS_CONFIG
+  ? loadSellerInstances(CONFIG.SELLERS_CONFIG)
+  : []) {
+  if (!mockAckLab && !instance.agentId) {
+    throw new Error(
+      `Seller "${instance.id}" in ${CONFIG.SELLERS_CONFIG} needs an agentId unless ACK_LAB_MODE=mock`
+    );
+  }
+
+  sellers.push(
+    await createMarketplaceSeller({
+      name: instance.name,
+      port: instance.port,
+      publicUrl: `http://localhost:${instance.port}`,
+      cataloguePath: instance.cataloguePath,
+      store: {
+        ...CONFIG.STORE,
+        filePath: withInstanceSuffix(CONFIG.STORE.filePath, instance.id),
+      },
+      audit: {
+        ...CONFIG.AUDIT,
+        filePath: withInstanceSuffix(CONFIG.AUDIT.filePath, instance.id),
+      },
+      agentId: instance.agentId ?? "",
+      mockAgentId: `marketplace-seller-${instance.id}`,
+    })
+  );
+}
+
+const { dataCatalogue, negotiationStore, auditTrail } = mainSeller;
+
+const sellerDirectory = createSellerDirectory(
+  CONFIG.BUYER_SELLER_URLS ??
+    sellers.map((seller) => `http://localhost:${seller.port}`)
+);
+
+// The payee of each seller started here, by the URL the buyer knows it by
+const sellerPayees = new Map(
+  sellers.map((seller) => [`http://localhost:${seller.port}`, seller.payee])
+);
 
 // ===== Marketplace Buyer Tools =====
-const buyerTools = {
-  callSeller: tool({
-    description:
-      "Call the marketplace seller agent to request data or negotiate",
+const URL_PATTERN = /https?:\/\/[^\s"'<>()[\]]+[^\s"'<>()[\].,;:!?]/g;
+
+function createCallSellerTool(session: ConversationSession<BuyerSessionState>) {
+  return tool({
+    description: "Call a marketplace seller agent to request data or negotiate",
     inputSchema: z.object({
       message: z.string(),
+      seller: z
+        .string()
+        .optional()
+        .describe(
+          "Name or URL of the seller, as returned by compareSellerListings. Defaults to the first seller"
+        ),
     }),
-    execute: async ({ message }) => {
-      logger.agent("Calling marketplace seller", message);
+    execute: async ({ message, seller: sellerName }) => {
+      const seller = await sellerDirectory.findSeller(sellerName);
+      if (!seller) {
+        return {
+          error: true,
+          message: `Unknown seller ${sellerName}. Use compareSellerListings to see the available sellers.`,
+        };
+      }
+
+      logger.agent(`Calling ${seller.name}`, message);
 
       try {
-        const response = await callAgent(message);
-        logger.incoming("Marketplace seller response", response);
-        return response;
+        const response = await getSellerCaller(seller.chatUrl)({
+          message,
+          sessionId: session.state.sellerSessionIds[seller.url],
+          correlationId: getCorrelationId(),
+        });
+        if (response.sessionId) {
+          session.state.sellerSessionIds[seller.url] = response.sessionId;
+        }
+        for (const url of response.text.match(URL_PATTERN) ?? []) {
+          session.state.receivedUrls[url] = seller.url;
+        }
+        logger.incoming(`${seller.name} response`, response.text);
+        return response.text;
       } catch (error) {
         logger.error("Error calling marketplace seller", error);
         return {
@@ -420,18 +1624,59 @@ const buyerTools = {
         };
       }
     },
-  }),
+  });
+}
 
-  executePayment: tool({
-    description: "Execute payment for data purchase",
+function createExecutePaymentTool(
+  session: ConversationSession<BuyerSessionState>
+) {
+  return tool({
+    description:
+      "Execute payment for data purchase. The payment is refused unless the payment request matches the negotiated price and resource",
     inputSchema: z.object({
       paymentRequestUrl: z
         .string()
         .describe(
           "The payment request URL received from the marketplace seller"
         ),
+      expectedAmount: z
+        .number()
+        .describe("The price in dollars agreed with the seller"),
+      expectedResourceName: z
+        .string()
+        .describe("The name of the resource that was negotiated"),
     }),
-    execute: async ({ paymentRequestUrl }) => {
+    execute: async ({
+      paymentRequestUrl,
+      expectedAmount,
+      expectedResourceName,
+    }) => {
+      // Only the seller that sent the payment request may be paid by it
+      const sellerUrl = session.state.receivedUrls[paymentRequestUrl];
+      const seller = sellerUrl && (await sellerDirectory.findSeller(sellerUrl));
+      if (!seller) {
+        logger.warn("Refusing to pay", paymentRequestUrl);
+        return {
+          success: false,
+          error:
+            "This payment request URL was not sent by a seller in this conversation",
+        };
+      }
+
+      // A configured override first, then the seller's own agent ID, then
+      // the DID its agent card publishes
+      const payee =
+        CONFIG.PAYMENT_VERIFICATION.expectedPayees.get(seller.url) ??
+        sellerPayees.get(seller.url) ??
+        seller.did;
+      if (!payee) {
+        logger.warn("Refusing to pay", paymentRequestUrl);
+        return {
+          success: false,
+          error: `No payee is known for ${seller.name}; set EXPECTED_SELLER_PAYEES for ${seller.url}`,
+        };
+      }
+
       const paymentRequestToken = await fetch(paymentRequestUrl).then((res) =>
         res.text()
       );
@@ -443,93 +1688,224 @@ const buyerTools = {
         "Payment request token being executed"
       );
 
+      const verification = await verifyPaymentRequestForPurchase(
+        paymentRequestToken,
+        { amount: expectedAmount, resourceName: expectedResourceName },
+        {
+          resolver: didResolver,
+          trustedIssuers: trustedPaymentRequestIssuers,
+          expectedPayees: [payee],
+        }
+      );
+
+      if (!verification.valid) {
+        logger.warn("Refusing to pay", verification.reason);
+        return {
+          success: false,
+          error: verification.reason,
+        };
+      }
+
+      const { paymentRequest, amount } = verification;
+      const reservation = buyerLedger.reserve(paymentRequest.id, amount);
+      if (!reservation.approved) {
+        logger.warn("Payment blocked by budget", reservation.reason);
+        return {
+          success: false,
+          error: reservation.reason,
+          budget: buyerLedger.getSummary(),
+        };
+      }
+
       try {
-        const result = await marketplaceBuyerAgent.executePayment(
-          paymentRequestToken
-        );
+        const result =
+          await marketplaceBuyerAgent.executePayment(paymentRequestToken);
+
+        buyerLedger.commit(paymentRequest.id, {
+          description: paymentRequest.description,
+          receiptUrl: result.url,
+        });
 
         logger.success("Payment successful!", `Receipt: ${result.url}`);
 
         return {
           success: true,
           receiptUrl: result.url,
+          amountPaid: amount,
+          remainingBudget: buyerLedger.getSummary().remaining,
           message: "Payment completed successfully",
         };
       } catch (error) {
+        // The payment may have gone through before the error, so its amount
+        // stays reserved until someone checks
+        const message =
+          error instanceof Error ? error.message : "Payment failed";
+        buyerLedger.markUnconfirmed(paymentRequest.id, message);
         logger.error("Payment failed", error);
 
         const errorWithResponse = error as { response?: { data?: unknown } };
 
         return {
           success: false,
-          error: error instanceof Error ? error.message : "Payment failed",
+          error: message,
+          unconfirmed: true,
           details:
             errorWithResponse.response?.data ||
             (error instanceof Error ? error.message : undefined),
         };
       }
     },
+  });
+}
+
+const buyerTools = {
+  compareSellerListings: tool({
+    description:
+      "Compare the resources matching a request that each seller lists in its agent card, by list price and fit. These are published list prices, not quotes: negotiate with callSeller for an actual price. Offers are sorted cheapest first; bestOffer is the cheapest good match",
+    inputSchema: z.object({
+      query: z.string().describe("What you are looking for"),
+    }),
+    execute: async ({ query }) => {
+      const { sellers, unavailableSellers } = await sellerDirectory.discover();
+      const comparison = compareSellerOffers(query, sellers);
+
+      logger.market(`Compared ${sellers.length} sellers`, {
+        Query: query,
+        Offers: comparison.offers.length,
+        "Best offer": comparison.bestOffer
+          ? `${comparison.bestOffer.resourceName} from ${comparison.bestOffer.seller} at $${comparison.bestOffer.listPrice}`
+          : "none",
+      });
+
+      return { ...comparison, unavailableSellers };
+    },
   }),
-};
 
-// ===== Marketplace Seller =====
-async function runMarketplaceSeller(message: string) {
-  const catalogueDescription = dataCatalogue
-    .map(
-      (r) =>
-        `- ${r.name}: ${r.description} (${r.format}, ${r.size}) - List price: $${r.listPrice}`
-    )
-    .join("\n");
-
-  const result = await generateText({
-    model: anthropic("claude-sonnet-4-20250514"),
-    system: `You are a marketplace seller agent with a catalogue of data resources.
-
-    Your available resources are:
-    ${catalogueDescription}
-
-    WORKFLOW:
-    1. When someone requests data: Use findMatchingResource to identify which resource matches their needs
-    2. Present the resource with its list price and ask if they want to proceed
-    3. If they negotiate: You can go down to minimum price but no lower
-    4. Once price is agreed: Use createDataPaymentRequest to generate a payment request URL
-    5. CRITICAL - When buyer confirms payment with a receipt:
-       a. Use provideAccessDataURL with the receipt URL the buyer provided
-       b. Share the resulting download URL with the buyer
-
-    DO NOT share the data download URL without calling provideAccessDataURL.
-    DO NOT apologize for technical difficulties or say there's an issue with validation.
-
-    Minimum prices: Housing $${CONFIG.MIN_PRICES.housing}, Ticker $${CONFIG.MIN_PRICES.ticker}, LLM paper $${CONFIG.MIN_PRICES.llm_paper}
-
-    Payment request URL should be provided between <payment_request_url> and </payment_request_url> markers.`,
-    prompt: message,
-    tools: sellerTools,
-    stopWhen: stepCountIs(8),
-  });
+  requestRefund: tool({
+    description:
+      "Create the payment request a seller pays to refund one of your payments. Send the seller the receipt URL and this refund request URL together with your reason",
+    inputSchema: z.object({
+      receiptUrl: z
+        .string()
+        .describe("The receipt URL of the payment to be refunded"),
+    }),
+    execute: async ({ receiptUrl }) => {
+      const payment = buyerLedger
+        .getSummary()
+        .payments.find((entry) => entry.receiptUrl === receiptUrl);
+      if (!payment) {
+        return { success: false, error: "No payment with this receipt URL" };
+      }
 
-  return result.text;
-}
+      // The description names the disputed payment so the seller can
+      // check the refund request is for it
+      const refundRequestId = `refund-${randomBytes(8).toString("hex")}`;
+      const { url } = await marketplaceBuyerAgent.createPaymentRequest({
+        id: refundRequestId,
+        amount: payment.amount * 100,
+        description: `Refund for ${payment.paymentRequestId}`,
+      });
+      buyerLedger.expectRefund(payment.paymentRequestId, refundRequestId);
+      logger.transaction("Refund requested", {
+        Payment: payment.paymentRequestId,
+        Amount: `$${payment.amount}`,
+      });
 
-// ===== Marketplace Buyer =====
-async function runMarketplaceBuyer(message: string) {
-  const researchTopic = getRandomResearchTopic();
+      return {
+        success: true,
+        receiptUrl,
+        refundRequestUrl: url,
+        amount: payment.amount,
+        instruction:
+          "Send the seller the receipt URL between <receipt_url> and </receipt_url> markers and this URL between <refund_request_url> and </refund_request_url> markers, with the reason for the dispute",
+      };
+    },
+  }),
 
-  const result = await generateText({
-    model: anthropic("claude-sonnet-4-20250514"),
+  confirmRefund: tool({
+    description:
+      "Confirm a refund a seller paid you, so the refunded amount returns to your budget",
+    inputSchema: z.object({
+      refundReceiptUrl: z
+        .string()
+        .describe("The receipt URL of the refund the seller paid"),
+    }),
+    execute: async ({ refundReceiptUrl }) => {
+      let refundRequestId: string;
+      let amount: number | undefined;
+      try {
+        const receiptJwt = await fetch(refundReceiptUrl).then((res) =>
+          res.text()
+        );
+        ({ paymentRequestId: refundRequestId } =
+          await marketplaceBuyerAgent.verifyPaymentReceipt(receiptJwt));
+        ({ amount } = readReceiptDetails(receiptJwt));
+      } catch (error) {
+        return {
+          success: false,
+          error: `Refund receipt could not be verified: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+      if (amount === undefined) {
+        return { success: false, error: "Refund receipt names no amount" };
+      }
+
+      const result = buyerLedger.creditRefund(refundRequestId, {
+        amount,
+        receiptUrl: refundReceiptUrl,
+      });
+      if (!result.credited) return { success: false, error: result.reason };
+
+      logger.transaction("Refund received", {
+        Payment: result.refund.paymentRequestId,
+        Amount: `$${result.refund.amount}`,
+      });
+      return {
+        success: true,
+        ...result.refund,
+        remainingBudget: buyerLedger.getSummary().remaining,
+      };
+    },
+  }),
+
+  checkBudget: tool({
+    description:
+      "Check how much budget remains and which payments have already been made",
+    inputSchema: z.object({}),
+    execute: async () => buyerLedger.getSummary(),
+  }),
+};
+
+// ===== Marketplace Buyer =====
+async function runMarketplaceBuyer(
+  { message, sessionId }: AgentRequest,
+  onEvent?: (event: AgentEvent) => void
+): Promise<AgentReply> {
+  const session = buyerSessions.getOrCreate(sessionId);
+  const { researchTopic } = session.state;
+
+  const result = streamText({
+    model: buyerModel,
     system: `You are a marketplace buyer agent looking for data resources.
 
     You are currently looking for: ${researchTopic}
-    Your budget is: $${CONFIG.BUYER_BUDGET}
+    Your budget is: $${CONFIG.BUYER_BUDGET} in total, and at most $${CONFIG.BUYER_MAX_PER_PURCHASE} per purchase
+    Use checkBudget to see how much you have left. Payments that exceed your budget will be refused.
+
+    You can shop at several competing sellers. Before negotiating, use compareSellerListings to see which sellers list a matching resource and at what list price, then negotiate with the seller of the best offer by passing its name to callSeller. Start your reply with a short comparison of the offers you found (seller, resource, list price) and which seller you chose.
 
     When you find a suitable resource:
     1. Express interest in the resource
     2. If the price is over your budget, negotiate by offering something reasonable but under budget
     3. Be willing to meet in the middle during negotiations
-    4. Once you agree on a price, pay using the payment request URL provided
+    4. Once you agree on a price, pay using the payment request URL provided, passing the agreed price and the resource name so the payment request can be checked
     5. Give the marketplace seller the receipt URL
     6. You'll receive an access URL for the data
 
+    If a payment was never delivered, or the data was not what was agreed, use requestRefund and dispute the payment with the seller. When you are given a refund receipt URL, use confirmRefund so the refund returns to your budget.
+    If you need several resources from the same seller, ask for them as a bundle: it is paid for with a single payment and usually comes with a discount.
+    Some resources are priced by intended use. You will use the data for ${CONFIG.BUYER_INTENDED_USE} purposes, so declare ${CONFIG.BUYER_INTENDED_USE} use when the seller asks.
+
     Negotiation strategy:
     - Start by offering about 80-85% of the list price if it's over budget
     - Be willing to go up to your budget limit
@@ -537,50 +1913,114 @@ async function runMarketplaceBuyer(message: string) {
 
     IMPORTANT: Always use the exact payment request URL provided by the marketplace seller for payment.
     After payment, only provide the receipt URL between <receipt_url> and </receipt_url> markers.`,
-    prompt: message,
-    tools: buyerTools,
-    stopWhen: stepCountIs(12),
+    messages: [...session.messages, { role: "user", content: message }],
+    tools: {
+      ...buyerTools,
+      callSeller: createCallSellerTool(session),
+      executePayment: createExecutePaymentTool(session),
+    },
+    temperature: CONFIG.MODEL.buyer.temperature,
+    stopWhen: stepCountIs(CONFIG.MODEL.buyer.maxSteps),
   });
 
-  return result.text;
+  await forwardAgentEvents(result.fullStream, onEvent);
+  const [text, response] = await Promise.all([result.text, result.response]);
+
+  buyerSessions.appendMessages(session, [
+    { role: "user", content: message },
+    ...response.messages,
+  ]);
+
+  return { text, sessionId: session.id };
 }
 
 // ===== Server Startup =====
-export function startAgentServers() {
-  try {
-    validateEnvironmentVariables();
-  } catch (error) {
-    logger.error("Environment validation failed", error);
-    throw error;
+export interface AgentServers {
+  close(): Promise<void>;
+}
+
+export function startAgentServers(): AgentServers {
+  const servers: ReturnType<typeof serveAgent>[] = [];
+
+  if (mockAckLab) {
+    servers.push(mockAckLab.start());
+    logger.warn(
+      "Using the mock ACK-Lab API",
+      "Payments are simulated locally and no real funds move"
+    );
+  } else {
+    try {
+      validateEnvironmentVariables();
+    } catch (error) {
+      logger.error("Environment validation failed", error);
+      throw error;
+    }
   }
 
-  serveAgent({
-    port: CONFIG.PORTS.buyer,
-    runAgent: runMarketplaceBuyer,
-    decodeJwt: CONFIG.DECODE_JWT,
+  logger.process("Agent models", {
+    Buyer: `${CONFIG.MODEL.buyer.provider}/${CONFIG.MODEL.buyer.modelId}`,
+    Seller: `${CONFIG.MODEL.seller.provider}/${CONFIG.MODEL.seller.modelId}`,
   });
 
-  serveAuthedAgent({
-    port: CONFIG.PORTS.seller,
-    runAgent: runMarketplaceSeller,
-    agent: marketplaceSellerAgent,
-    decodeJwt: CONFIG.DECODE_JWT,
-  });
+  if (
+    CONFIG.MODEL.buyer.provider === "scripted" ||
+    CONFIG.MODEL.seller.provider === "scripted"
+  ) {
+    logger.warn(
+      "Using scripted models",
+      `Agents replay ${CONFIG.MODEL.fixturePath} instead of calling an LLM`
+    );
+  }
+
+  servers.push(
+    serveAgent({
+      port: CONFIG.PORTS.buyer,
+      runAgent: runMarketplaceBuyer,
+      decodeJwt: CONFIG.DECODE_JWT,
+    })
+  );
+
+  servers.push(...sellers.map((seller) => seller.start()));
+  for (const seller of sellers) {
+    seller.negotiationSweeper.start(CONFIG.NEGOTIATION.sweepIntervalMs);
+  }
 
   logger.section("AGENT SERVERS STARTED");
   logger.server("Marketplace Buyer", `http://localhost:${CONFIG.PORTS.buyer}`);
-  logger.server(
-    "Marketplace Seller",
-    `http://localhost:${CONFIG.PORTS.seller}`
-  );
+  for (const seller of sellers) {
+    logger.server(seller.name, `http://localhost:${seller.port}`);
+  }
+  if (mockAckLab) {
+    logger.server("Mock ACK-Lab API", mockAckLab.baseUrl);
+  }
   logger.info("Demos are now ready to communicate with these agents.");
   logger.separator();
+
+  return {
+    close: async () => {
+      for (const seller of sellers) seller.negotiationSweeper.stop();
+      await Promise.all(
+        servers.map(
+          (server) =>
+            new Promise<void>((resolve, reject) =>
+              server.close((error) => (error ? reject(error) : resolve()))
+            )
+        )
+      );
+    },
+  };
 }
 
 // ===== Exports =====
-export { dataCatalogue, CONFIG };
+export {
+  dataCatalogue,
+  negotiationStore,
+  auditTrail,
+  buyerLedger,
+  sellers,
+  CONFIG,
+};
 export const BUYER_BUDGET = CONFIG.BUYER_BUDGET;
-export const MIN_PRICES = CONFIG.MIN_PRICES;
 export const DECODE_JWT = CONFIG.DECODE_JWT;
 
 // Legacy export for backwards compatibility
@@ -0,0 +1,320 @@
+import type { Resolvable } from "agentcommercekit";
+import type { AckLabClient } from "./ack-lab-client";
+import type { AuditTrail } from "./audit-trail";
+import type { Dispute } from "./data-models";
+import { auditedTransition } from "./negotiation-lifecycle";
+import type { NegotiationStore } from "./negotiation-store";
+import { verifyPaymentRequestForPurchase } from "./payment-request-verification";
+import { readReceiptDetails } from "./receipts";
+import { refundGrantPeriod } from "./subscriptions";
+
+export type DisputeResult =
+  | { ok: true; paymentRequestId: string; dispute: Dispute }
+  | { ok: false; error: string; status?: number };
+
+export type DisputeDecision = "approve" | "reject";
+
+interface DisputeDeskConfig {
+  agent: AckLabClient;
+  negotiationStore: NegotiationStore;
+  auditTrail: AuditTrail;
+  resolver: Resolvable;
+  trustedIssuers: string[];
+}
+
+/**
+ * Opens and resolves buyers' disputes over payments to this seller. A
+ * dispute is opened by the buyer who paid, from a verified receipt and
+ * the buyer's own payment request for the refund. Approving it pays that
+ * request; rejecting it closes the dispute without moving money. The
+ * seller's staff resolve disputes; the agent the buyer talks to can only
+ * refund a payment that was never delivered.
+ */
+export interface DisputeDesk {
+  open(
+    claim: { receiptUrl: string; reason: string; refundRequestUrl: string },
+    caller: string | undefined
+  ): Promise<DisputeResult>;
+  resolve(
+    paymentRequestId: string,
+    decision: DisputeDecision,
+    note?: string
+  ): Promise<DisputeResult>;
+  refundUndelivered(
+    paymentRequestId: string,
+    note?: string
+  ): Promise<DisputeResult>;
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+export function createDisputeDesk({
+  agent,
+  negotiationStore,
+  auditTrail,
+  resolver,
+  trustedIssuers,
+}: DisputeDeskConfig): DisputeDesk {
+  // Disputes are audited with the negotiation they came from. A payment
+  // whose negotiation is gone is audited under its payment request ID
+  const auditKey = async (paymentRequestId: string) =>
+    (await negotiationStore.getTransaction(paymentRequestId))?.negotiationId ??
+    (await negotiationStore.findNegotiationByPaymentRequestId(paymentRequestId))
+      ?.negotiationId ??
+    paymentRequestId;
+
+  // The refund must pay exactly the disputed amount back to the payer
+  async function refund(paymentRequestId: string, dispute: Dispute) {
+    let refundRequestToken: string;
+    try {
+      refundRequestToken = await fetch(dispute.refundRequestUrl).then((res) =>
+        res.text()
+      );
+    } catch (error) {
+      return {
+        refunded: false as const,
+        reason: `Refund payment request could not be fetched: ${errorMessage(error)}`,
+      };
+    }
+
+    const verification = await verifyPaymentRequestForPurchase(
+      refundRequestToken,
+      { amount: dispute.amount, resourceName: paymentRequestId },
+      { resolver, trustedIssuers, expectedPayees: [dispute.buyer] }
+    );
+    if (!verification.valid) {
+      return { refunded: false as const, reason: verification.reason };
+    }
+
+    try {
+      const { url } = await agent.executePayment(refundRequestToken);
+      return { refunded: true as const, receiptUrl: url };
+    } catch (error) {
+      return { refunded: false as const, reason: errorMessage(error) };
+    }
+  }
+
+  // Holding the dispute for the whole resolution keeps two concurrent
+  // approvals from both paying the refund
+  const resolving = new Set<string>();
+
+  async function holdWhileResolving(
+    paymentRequestId: string,
+    resolveDispute: () => Promise<DisputeResult>
+  ): Promise<DisputeResult> {
+    if (resolving.has(paymentRequestId)) {
+      return {
+        ok: false,
+        error: "This dispute is already being resolved",
+        status: 409,
+      };
+    }
+    resolving.add(paymentRequestId);
+    try {
+      return await resolveDispute();
+    } finally {
+      resolving.delete(paymentRequestId);
+    }
+  }
+
+  async function settle(
+    paymentRequestId: string,
+    decision: DisputeDecision,
+    note?: string,
+    { undeliveredOnly = false } = {}
+  ): Promise<DisputeResult> {
+    const dispute = await negotiationStore.getDispute(paymentRequestId);
+    if (!dispute) {
+      return { ok: false, error: "Dispute not found", status: 404 };
+    }
+    if (dispute.status !== "open" && dispute.status !== "refund-failed") {
+      return {
+        ok: false,
+        error: `Dispute is already ${dispute.status}`,
+        status: 409,
+      };
+    }
+
+    const key = await auditKey(paymentRequestId);
+    const resolvedAt = new Date().toISOString();
+    // Nothing is delivered while a dispute is open, but a payment delivered
+    // after the dispute was recorded is judged as delivered
+    const transaction = await negotiationStore.getTransaction(paymentRequestId);
+    const current: Dispute = { ...dispute, delivered: Boolean(transaction) };
+    if (undeliveredOnly && (dispute.delivered || current.delivered)) {
+      return {
+        ok: false,
+        error:
+          "This payment was delivered, so its dispute is left for the seller's staff",
+        status: 403,
+      };
+    }
+
+    if (decision === "reject") {
+      const rejected: Dispute = {
+        ...current,
+        status: "rejected",
+        resolution: note ?? "Rejected by seller",
+        resolvedAt,
+      };
+      await negotiationStore.saveDispute(paymentRequestId, rejected);
+      await auditTrail.record(key, "dispute-rejected", {
+        paymentRequestId,
+        resolution: rejected.resolution,
+      });
+      return { ok: true, paymentRequestId, dispute: rejected };
+    }
+
+    // Recorded before any money moves, so an interrupted refund is never
+    // approved and paid a second time
+    await negotiationStore.saveDispute(paymentRequestId, {
+      ...current,
+      status: "refunding",
+    });
+
+    const result = await refund(paymentRequestId, current);
+    if (!result.refunded) {
+      const failed: Dispute = {
+        ...current,
+        status: "refund-failed",
+        resolution: result.reason,
+        resolvedAt,
+      };
+      await negotiationStore.saveDispute(paymentRequestId, failed);
+      await auditTrail.record(key, "refund-failed", {
+        paymentRequestId,
+        reason: result.reason,
+      });
+      return { ok: true, paymentRequestId, dispute: failed };
+    }
+
+    const refunded: Dispute = {
+      ...current,
+      status: "refunded",
+      resolution: note ?? "Refunded by seller",
+      refundReceiptUrl: result.receiptUrl,
+      resolvedAt,
+    };
+    await negotiationStore.saveDispute(paymentRequestId, refunded);
+
+    if (transaction) {
+      // A refunded purchase no longer grants access to what it bought, and
+      // a refunded subscription period is taken off its grant
+      await negotiationStore.saveTransaction(paymentRequestId, {
+        ...transaction,
+        refundedAt: resolvedAt,
+      });
+      if (transaction.grantId) {
+        const grant = await negotiationStore.getGrant(transaction.grantId);
+        if (grant) {
+          await negotiationStore.saveGrant(
+            transaction.grantId,
+            refundGrantPeriod(grant, paymentRequestId)
+          );
+        }
+      }
+    } else {
+      // An undelivered purchase ends with its refund, so its receipt can
+      // never be redeemed
+      const found =
+        await negotiationStore.findNegotiationByPaymentRequestId(
+          paymentRequestId
+        );
+      if (found) {
+        const cancelled = await auditedTransition(
+          auditTrail,
+          found.negotiationId,
+          found.negotiation,
+          "cancelled"
+        );
+        if (cancelled.ok) {
+          await negotiationStore.saveNegotiation(
+            found.negotiationId,
+            found.negotiation
+          );
+        }
+      }
+    }
+
+    await auditTrail.record(key, "refund-issued", {
+      paymentRequestId,
+      amount: current.amount,
+      buyer: current.buyer,
+      delivered: current.delivered,
+      refundReceiptUrl: result.receiptUrl,
+    });
+    return { ok: true, paymentRequestId, dispute: refunded };
+  }
+
+  return {
+    async open({ receiptUrl, reason, refundRequestUrl }, caller) {
+      let receiptJwt: string;
+      let paymentRequestId: string;
+      try {
+        receiptJwt = await fetch(receiptUrl).then((res) => res.text());
+        ({ paymentRequestId } = await agent.verifyPaymentReceipt(receiptJwt));
+      } catch (error) {
+        return {
+          ok: false,
+          error: `Receipt could not be verified: ${errorMessage(error)}`,
+        };
+      }
+
+      const { payer, amount } = readReceiptDetails(receiptJwt);
+      if (!payer || amount === undefined) {
+        return {
+          ok: false,
+          error: "Receipt does not name its payer and amount",
+        };
+      }
+      if (payer !== caller) {
+        return {
+          ok: false,
+          error: "Only the buyer who made this payment can dispute it",
+          status: 403,
+        };
+      }
+
+      const existing = await negotiationStore.getDispute(paymentRequestId);
+      if (existing) {
+        return {
+          ok: false,
+          error: `A dispute over this payment was already opened and is ${existing.status}`,
+          status: 409,
+        };
+      }
+
+      const dispute: Dispute = {
+        receiptUrl,
+        buyer: payer,
+        amount,
+        reason,
+        refundRequestUrl,
+        delivered: Boolean(
+          await negotiationStore.getTransaction(paymentRequestId)
+        ),
+        status: "open",
+        openedAt: new Date().toISOString(),
+      };
+      await negotiationStore.saveDispute(paymentRequestId, dispute);
+      await auditTrail.record(
+        await auditKey(paymentRequestId),
+        "dispute-opened",
+        { paymentRequestId, buyer: payer, amount, reason }
+      );
+
+      return { ok: true, paymentRequestId, dispute };
+    },
+
+    resolve: (paymentRequestId, decision, note) =>
+      holdWhileResolving(paymentRequestId, () =>
+        settle(paymentRequestId, decision, note)
+      ),
+
+    refundUndelivered: (paymentRequestId, note) =>
+      holdWhileResolving(paymentRequestId, () =>
+        settle(paymentRequestId, "approve", note, { undeliveredOnly: true })
+      ),
+  };
+}
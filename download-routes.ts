@@ -0,0 +1,104 @@
+import { readFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+import { Hono } from "hono";
+import { verifyAccessToken } from "./access-tokens";
+import type { CompletedTransaction, DataResource } from "./data-models";
+import { logger } from "./logger";
+
+interface DownloadRoutesConfig {
+  dataDir: string;
+  secret: string;
+  findResource: (resourceId: string) => DataResource | undefined;
+  findTransaction: (
+    paymentRequestId: string
+  ) => Promise<CompletedTransaction | undefined>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  CSV: "text/csv",
+  PDF: "application/pdf",
+  JSON: "application/json",
+};
+
+/**
+ * Routes that serve purchased resources from the local data directory.
+ * Every download must present an unexpired access token that was issued
+ * for the requested resource and for the buyer recorded on the transaction.
+ * A bundle purchase issues one token per resource it covers, and a
+ * refunded purchase no longer downloads anything.
+ */
+export function createDownloadRoutes({
+  dataDir,
+  secret,
+  findResource,
+  findTransaction,
+}: DownloadRoutesConfig) {
+  const app = new Hono();
+
+  app.get("/download/:resourceId", async (c) => {
+    const resourceId = c.req.param("resourceId");
+    const token = c.req.query("token");
+
+    if (!token) {
+      return c.json({ error: "Missing access token" }, 401);
+    }
+
+    const verification = verifyAccessToken(token, secret);
+    if (!verification.valid) {
+      logger.warn("Rejected download", verification.reason);
+      return c.json({ error: verification.reason }, 403);
+    }
+
+    const { claims } = verification;
+    if (claims.resourceId !== resourceId) {
+      logger.warn("Rejected download", "Token issued for another resource");
+      return c.json(
+        { error: "Access token was not issued for this resource" },
+        403
+      );
+    }
+
+    const transaction = await findTransaction(claims.paymentRequestId);
+    const purchased =
+      transaction?.resourceIds ?? (transaction ? [transaction.resourceId] : []);
+    if (!transaction || !purchased.includes(resourceId)) {
+      return c.json({ error: "No completed purchase for this token" }, 403);
+    }
+
+    if (transaction.refundedAt) {
+      return c.json({ error: "This purchase was refunded" }, 403);
+    }
+
+    if (transaction.buyer !== claims.buyer) {
+      logger.warn("Rejected download", "Token buyer does not match purchase");
+      return c.json(
+        { error: "Access token was not issued for this buyer" },
+        403
+      );
+    }
+
+    const resource = findResource(resourceId);
+    if (!resource) {
+      return c.json({ error: "Resource not found" }, 404);
+    }
+
+    let contents: Buffer;
+    try {
+      contents = await readFile(join(dataDir, basename(resource.fileName)));
+    } catch (error) {
+      logger.error("Resource file could not be read", error);
+      return c.json({ error: "Resource file is unavailable" }, 404);
+    }
+
+    logger.success("Serving download", `${resource.name} → ${claims.buyer}`);
+
+    return c.body(new Uint8Array(contents), 200, {
+      "Content-Type":
+        CONTENT_TYPES[resource.format.toUpperCase()] ??
+        "application/octet-stream",
+      "Content-Disposition": `attachment; filename="${basename(resource.fileName)}"`,
+    });
+  });
+
+  return app;
+}
@@ -0,0 +1,87 @@
+import type { DataResource, PendingNegotiation } from "./data-models";
+import { hasEnded } from "./negotiation-lifecycle";
+
+export type InvoiceRejectionCode =
+  | "negotiation_not_found"
+  | "resource_mismatch"
+  | "negotiation_closed"
+  | "already_invoiced"
+  | "price_not_agreed"
+  | "price_mismatch"
+  | "price_out_of_range";
+
+export interface InvoiceRejection {
+  code: InvoiceRejectionCode;
+  message: string;
+}
+
+interface InvoiceRequest {
+  resource: DataResource;
+  agreedPrice: number;
+  negotiation: PendingNegotiation | undefined;
+}
+
+/**
+ * Checks that a payment request matches what the seller actually agreed
+ * to. Returns every reason the request must be refused, or an empty list
+ * when it can be invoiced.
+ */
+export function validateInvoiceRequest({
+  resource,
+  agreedPrice,
+  negotiation,
+}: InvoiceRequest): InvoiceRejection[] {
+  if (!negotiation) {
+    return [
+      {
+        code: "negotiation_not_found",
+        message:
+          "No negotiation exists for this negotiationId. Use negotiatePrice first.",
+      },
+    ];
+  }
+
+  const rejections: InvoiceRejection[] = [];
+
+  if (negotiation.resource.id !== resource.id) {
+    rejections.push({
+      code: "resource_mismatch",
+      message: `This negotiation is for ${negotiation.resource.id}, not ${resource.id}`,
+    });
+  }
+
+  if (hasEnded(negotiation)) {
+    rejections.push({
+      code: "negotiation_closed",
+      message: `This negotiation was ${negotiation.state}`,
+    });
+  } else if (negotiation.paymentRequestId) {
+    rejections.push({
+      code: "already_invoiced",
+      message: "A payment request was already issued for this negotiation",
+    });
+  }
+
+  if (negotiation.agreedPrice === undefined) {
+    rejections.push({
+      code: "price_not_agreed",
+      message: "No price has been accepted in this negotiation yet",
+    });
+  } else if (negotiation.agreedPrice !== agreedPrice) {
+    rejections.push({
+      code: "price_mismatch",
+      message: `The accepted price is $${negotiation.agreedPrice}, not $${agreedPrice}`,
+    });
+  }
+
+  const minimumPrice = resource.minimumPrice * negotiation.quantity;
+  const listPrice = resource.listPrice * negotiation.quantity;
+  if (agreedPrice < minimumPrice || agreedPrice > listPrice) {
+    rejections.push({
+      code: "price_out_of_range",
+      message: `Price must be between $${minimumPrice} and $${listPrice}`,
+    });
+  }
+
+  return rejections;
+}
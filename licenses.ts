@@ -0,0 +1,62 @@
+import { z } from "zod";
+import type { DataResource } from "./data-models";
+
+export const licenseTierSchema = z.object({
+  // The intended use a buyer declares to buy under this tier
+  use: z.string().regex(/^[\w-]+$/, "Use only letters, digits, '_' and '-'"),
+  listPrice: z.number().positive(),
+  minimumPrice: z.number().positive(),
+  terms: z.string().min(1),
+});
+
+export type LicenseTier = z.infer<typeof licenseTierSchema>;
+
+export interface NegotiatedLicense {
+  use: string;
+  terms: string;
+}
+
+export type LicenseResult =
+  | { licensed: true; resource: DataResource; license?: NegotiatedLicense }
+  | { licensed: false; error: string };
+
+/**
+ * Prices a resource for the buyer's intended use. A resource with license
+ * tiers is only sold under one of them, at that tier's prices; one without
+ * tiers sells at its own prices whatever the intended use.
+ */
+export function licenseResource(
+  resource: DataResource,
+  intendedUse: string | undefined
+): LicenseResult {
+  const { licenses } = resource;
+  if (!licenses) return { licensed: true, resource };
+
+  const uses = licenses.map((tier) => tier.use).join(", ");
+  if (!intendedUse) {
+    return {
+      licensed: false,
+      error: `${resource.name} is licensed by intended use. Declare one of: ${uses}`,
+    };
+  }
+
+  const tier = licenses.find(
+    (t) => t.use.toLowerCase() === intendedUse.toLowerCase()
+  );
+  if (!tier) {
+    return {
+      licensed: false,
+      error: `${resource.name} has no ${intendedUse} license. Choose one of: ${uses}`,
+    };
+  }
+
+  return {
+    licensed: true,
+    resource: {
+      ...resource,
+      listPrice: tier.listPrice,
+      minimumPrice: tier.minimumPrice,
+    },
+    license: { use: tier.use, terms: tier.terms },
+  };
+}
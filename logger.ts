@@ -1,148 +1,239 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { randomUUID } from 'node:crypto'
 import { blue, cyan, green, yellow, red, magenta, gray, bold, dim } from 'yoctocolors'
 
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+// LOG_FORMAT=json writes one JSON object per event instead of the pretty
+// console output, and LOG_LEVEL hides events below the given level
+const LOG_FORMAT = process.env.LOG_FORMAT === 'json' ? 'json' : 'pretty'
+const MIN_LEVEL = Math.max(0, LOG_LEVELS.indexOf(process.env.LOG_LEVEL as LogLevel))
+
+// ===== Correlation IDs =====
+const correlationContext = new AsyncLocalStorage<string>()
+
+export function createCorrelationId(): string {
+  return randomUUID()
+}
+
+// Everything logged while `fn` runs, including in the async work it
+// starts, carries this correlation ID
+export function withCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return correlationContext.run(correlationId, fn)
+}
+
+export function getCorrelationId(): string | undefined {
+  return correlationContext.getStore()
+}
+
+function errorFields(error: unknown) {
+  if (error instanceof Error) {
+    return { error: error.message, stack: error.stack }
+  }
+  return error === undefined ? {} : { error: String(error) }
+}
+
+function log(
+  level: LogLevel,
+  event: string,
+  fields: Record<string, unknown>,
+  pretty: () => void
+) {
+  if (LOG_LEVELS.indexOf(level) < MIN_LEVEL) return
+
+  if (LOG_FORMAT === 'pretty') {
+    pretty()
+    return
+  }
+
+  console.log(JSON.stringify({
+    timestamp: new Date().toISOString(),
+    level,
+    event,
+    correlationId: getCorrelationId(),
+    ...fields
+  }))
+}
+
 export const logger = {
   // Section separator - used to visually separate major operations
   separator: () => {
+    if (LOG_FORMAT === 'json') return
     console.log('\n' + gray('─'.repeat(60)) + '\n')
   },
 
   // Major section headers with double spacing
   section: (title: string) => {
-    console.log('\n\n' + bold(blue('━━━ ' + title + ' ━━━')) + '\n')
+    log('info', 'section', { message: title }, () => {
+      console.log('\n\n' + bold(blue('━━━ ' + title + ' ━━━')) + '\n')
+    })
   },
 
   // Success messages - server startup, completion
   success: (message: string, details?: string) => {
-    console.log(green('✅ ' + message))
-    if (details) {
-      console.log(gray('   ' + details))
-    }
+    log('info', 'success', { message, details }, () => {
+      console.log(green('✅ ' + message))
+      if (details) {
+        console.log(gray('   ' + details))
+      }
+    })
   },
 
   // Info messages - general information
   info: (message: string, details?: string) => {
-    console.log(cyan('ℹ️  ' + message))
-    if (details) {
-      console.log(gray('   ' + details))
-    }
+    log('info', 'info', { message, details }, () => {
+      console.log(cyan('ℹ️  ' + message))
+      if (details) {
+        console.log(gray('   ' + details))
+      }
+    })
   },
 
   // Server/service startup
   server: (name: string, url: string) => {
-    console.log(blue('   • ' + name + ':') + ' ' + cyan(url))
+    log('info', 'server', { message: name, url }, () => {
+      console.log(blue('   • ' + name + ':') + ' ' + cyan(url))
+    })
   },
 
   // Incoming requests/messages
   incoming: (type: string, content: string, preview?: boolean) => {
-    console.log('\n' + yellow('◀── ' + type))
-    if (preview && content.length > 100) {
-      console.log(dim('    ' + content.substring(0, 100) + '...'))
-    } else {
-      console.log(dim('    ' + content))
-    }
+    log('info', 'incoming', { message: type, content }, () => {
+      console.log('\n' + yellow('◀── ' + type))
+      if (preview && content.length > 100) {
+        console.log(dim('    ' + content.substring(0, 100) + '...'))
+      } else {
+        console.log(dim('    ' + content))
+      }
+    })
   },
 
   // Outgoing responses
   outgoing: (type: string, content: string, preview?: boolean) => {
-    console.log(green('──▶ ' + type))
-    if (preview && content.length > 100) {
-      console.log(dim('    ' + content.substring(0, 100) + '...'))
-    } else {
-      console.log(dim('    ' + content))
-    }
+    log('info', 'outgoing', { message: type, content }, () => {
+      console.log(green('──▶ ' + type))
+      if (preview && content.length > 100) {
+        console.log(dim('    ' + content.substring(0, 100) + '...'))
+      } else {
+        console.log(dim('    ' + content))
+      }
+    })
   },
 
   // Agent communication
   agent: (action: string, message: string) => {
-    console.log('\n' + magenta('🤖 ' + action))
-    console.log(gray('   ' + message))
+    log('info', 'agent', { message: action, details: message }, () => {
+      console.log('\n' + magenta('🤖 ' + action))
+      console.log(gray('   ' + message))
+    })
   },
 
   // Processing/calculation steps
   process: (action: string, details?: Record<string, unknown>) => {
-    console.log('\n' + blue('⚙️  ' + action))
-    if (details) {
-      Object.entries(details).forEach(([key, value]) => {
-        console.log(gray('   • ' + key + ': ') + cyan(String(value)))
-      })
-    }
+    log('info', 'process', { message: action, data: details }, () => {
+      console.log('\n' + blue('⚙️  ' + action))
+      if (details) {
+        Object.entries(details).forEach(([key, value]) => {
+          console.log(gray('   • ' + key + ': ') + cyan(String(value)))
+        })
+      }
+    })
   },
 
   // Price/market data
   market: (title: string, data: Record<string, unknown>) => {
-    console.log('\n' + green('📊 ' + title))
-    Object.entries(data).forEach(([key, value]) => {
-      console.log(gray('   • ' + key + ': ') + yellow(String(value)))
+    log('info', 'market', { message: title, data }, () => {
+      console.log('\n' + green('📊 ' + title))
+      Object.entries(data).forEach(([key, value]) => {
+        console.log(gray('   • ' + key + ': ') + yellow(String(value)))
+      })
     })
   },
 
   // Transaction/payment operations
   transaction: (action: string, details?: Record<string, unknown>) => {
-    console.log('\n' + cyan('💳 ' + action))
-    if (details) {
-      Object.entries(details).forEach(([key, value]) => {
-        console.log(gray('   • ' + key + ': ') + green(String(value)))
-      })
-    }
+    log('info', 'transaction', { message: action, data: details }, () => {
+      console.log('\n' + cyan('💳 ' + action))
+      if (details) {
+        Object.entries(details).forEach(([key, value]) => {
+          console.log(gray('   • ' + key + ': ') + green(String(value)))
+        })
+      }
+    })
   },
 
   // Swap operations
   swap: (action: string, details?: Record<string, unknown>) => {
-    console.log('\n' + magenta('🔄 ' + action))
-    if (details) {
-      Object.entries(details).forEach(([key, value]) => {
-        console.log(gray('   • ' + key + ': ') + cyan(String(value)))
-      })
-    }
+    log('info', 'swap', { message: action, data: details }, () => {
+      console.log('\n' + magenta('🔄 ' + action))
+      if (details) {
+        Object.entries(details).forEach(([key, value]) => {
+          console.log(gray('   • ' + key + ': ') + cyan(String(value)))
+        })
+      }
+    })
   },
 
   // Debug information (like JWT decoding)
   debug: (label: string, data: unknown) => {
-    console.log('\n' + gray('🔍 ' + label))
-    if (typeof data === 'object') {
-      console.log(gray(JSON.stringify(data, null, 2).split('\n').map(line => '   ' + line).join('\n')))
-    } else {
-      console.log(gray('   ' + String(data)))
-    }
+    log('debug', 'debug', { message: label, data }, () => {
+      console.log('\n' + gray('🔍 ' + label))
+      if (typeof data === 'object') {
+        console.log(gray(JSON.stringify(data, null, 2).split('\n').map(line => '   ' + line).join('\n')))
+      } else {
+        console.log(gray('   ' + String(data)))
+      }
+    })
   },
 
   // Warnings
   warn: (message: string, details?: string) => {
-    console.log('\n' + yellow('⚠️  ' + message))
-    if (details) {
-      console.log(gray('   ' + details))
-    }
+    log('warn', 'warn', { message, details }, () => {
+      console.log('\n' + yellow('⚠️  ' + message))
+      if (details) {
+        console.log(gray('   ' + details))
+      }
+    })
   },
 
   // Errors
   error: (message: string, error?: unknown) => {
-    console.log('\n' + red('❌ ' + message))
-    if (error) {
-      if (error instanceof Error) {
-        console.log(red('   ' + error.message))
-        if (error.stack) {
-          console.log(dim(gray('   ' + error.stack.split('\n').slice(1).join('\n   '))))
+    log('error', 'error', { message, ...errorFields(error) }, () => {
+      console.log('\n' + red('❌ ' + message))
+      if (error) {
+        if (error instanceof Error) {
+          console.log(red('   ' + error.message))
+          if (error.stack) {
+            console.log(dim(gray('   ' + error.stack.split('\n').slice(1).join('\n   '))))
+          }
+        } else {
+          console.log(red('   ' + String(error)))
         }
-      } else {
-        console.log(red('   ' + String(error)))
       }
-    }
+    })
   },
 
   // HTTP request/response (for middleware logger replacement)
   http: (method: string, path: string, status?: number, time?: string) => {
-    if (status) {
-      const statusColor = status < 400 ? green : status < 500 ? yellow : red
-      console.log(gray(`[HTTP] ${method} ${path} `) + statusColor(String(status)) + gray(` ${time || ''}`))
-    } else {
-      console.log(gray(`[HTTP] ${method} ${path}`))
-    }
+    const level = !status || status < 400 ? 'info' : status < 500 ? 'warn' : 'error'
+    log(level, 'http', { method, path, status, time }, () => {
+      if (status) {
+        const statusColor = status < 400 ? green : status < 500 ? yellow : red
+        console.log(gray(`[HTTP] ${method} ${path} `) + statusColor(String(status)) + gray(` ${time || ''}`))
+      } else {
+        console.log(gray(`[HTTP] ${method} ${path}`))
+      }
+    })
   },
 
   // Raw log with optional spacing
   raw: (message: string, spacing: 'before' | 'after' | 'both' | 'none' = 'none') => {
-    if (spacing === 'before' || spacing === 'both') console.log()
-    console.log(message)
-    if (spacing === 'after' || spacing === 'both') console.log()
+    log('info', 'raw', { message }, () => {
+      if (spacing === 'before' || spacing === 'both') console.log()
+      console.log(message)
+      if (spacing === 'after' || spacing === 'both') console.log()
+    })
   }
 }
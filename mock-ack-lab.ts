@@ -0,0 +1,270 @@
+import { randomUUID } from "node:crypto";
+import { serve } from "@hono/node-server";
+import {
+  createDidKeyUri,
+  createJwt,
+  createJwtSigner,
+  createPaymentReceipt,
+  createSignedPaymentRequest,
+  curveToJwtAlgorithm,
+  generateKeypair,
+  getDidResolver,
+  signCredential,
+  verifyJwt,
+  verifyPaymentReceipt,
+  verifyPaymentRequestToken,
+  type DidUri,
+  type JwtAlgorithm,
+  type JwtSigner,
+} from "agentcommercekit";
+import { Hono } from "hono";
+import type { z } from "zod";
+import type { AckLabClient } from "./ack-lab-client";
+import { getCorrelationId, logger } from "./logger";
+
+const PAYMENT_REQUEST_TTL_MS = 60 * 60 * 1000;
+const RECEIPT_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface Identity {
+  did: DidUri;
+  signer: JwtSigner;
+  alg: JwtAlgorithm;
+}
+
+export interface MockAckLab {
+  baseUrl: string;
+  issuerDid: DidUri;
+  // Payments to the agent name its did:key as their recipient, or its
+  // agent ID with `payeeByAgentId`, as the real ACK-Lab API does
+  createAgent(
+    agentId: string,
+    options?: { balance?: number; payeeByAgentId?: boolean }
+  ): Promise<AckLabClient & { agentId: string; did: DidUri }>;
+  getBalance(agentId: string): number;
+  start(): ReturnType<typeof serve>;
+}
+
+async function createIdentity(): Promise<Identity> {
+  const keypair = await generateKeypair("secp256k1");
+  return {
+    did: createDidKeyUri(keypair),
+    signer: createJwtSigner(keypair),
+    alg: curveToJwtAlgorithm(keypair.curve),
+  };
+}
+
+/**
+ * An in-process stand-in for the ACK-Lab API, so the demo can run without
+ * credentials or network access. It signs payment requests and receipts
+ * with its own did:key, tracks a balance per agent, and serves issued
+ * tokens over HTTP the same way ACK-Lab hands out payment request and
+ * receipt URLs.
+ */
+export async function createMockAckLab({
+  baseUrl,
+}: {
+  baseUrl: string;
+}): Promise<MockAckLab> {
+  const service = await createIdentity();
+  const resolver = getDidResolver();
+
+  const balances = new Map<string, number>();
+  const agentsByRecipient = new Map<string, string>();
+  const paymentRequests = new Map<string, string>();
+  const receipts = new Map<string, string>();
+  const paidRequestIds = new Set<string>();
+
+  const app = new Hono();
+
+  app.get("/payment-requests/:id", (c) => {
+    const token = paymentRequests.get(c.req.param("id"));
+    return token ? c.text(token) : c.text("Payment request not found", 404);
+  });
+
+  app.get("/receipts/:id", (c) => {
+    const receipt = receipts.get(c.req.param("id"));
+    return receipt ? c.text(receipt) : c.text("Receipt not found", 404);
+  });
+
+  app.get("/balances", (c) => c.json(Object.fromEntries(balances)));
+
+  async function createAgent(
+    agentId: string,
+    {
+      balance = 0,
+      payeeByAgentId = false,
+    }: { balance?: number; payeeByAgentId?: boolean } = {}
+  ) {
+    const identity = await createIdentity();
+    const recipient = payeeByAgentId ? agentId : identity.did;
+    balances.set(agentId, balance);
+    agentsByRecipient.set(recipient, agentId);
+
+    const signData = (data: unknown) =>
+      createJwt(
+        { data },
+        { issuer: identity.did, signer: identity.signer },
+        { alg: identity.alg }
+      );
+
+    const readData = async (jwt: string) => {
+      const { payload } = await verifyJwt(jwt, {
+        resolver,
+        policies: { aud: false },
+      });
+      return payload.data;
+    };
+
+    const client: AckLabClient & { agentId: string; did: DidUri } = {
+      agentId,
+      did: identity.did,
+
+      async createPaymentRequest({ id = randomUUID(), amount, description }) {
+        const { paymentRequestToken } = await createSignedPaymentRequest(
+          {
+            id,
+            description,
+            expiresAt: new Date(Date.now() + PAYMENT_REQUEST_TTL_MS),
+            paymentOptions: [
+              {
+                id: `${id}-usd`,
+                amount,
+                decimals: 2,
+                currency: "USD",
+                recipient,
+              },
+            ],
+          },
+          {
+            issuer: service.did,
+            signer: service.signer,
+            algorithm: service.alg,
+          }
+        );
+
+        paymentRequests.set(id, paymentRequestToken);
+        return { url: `${baseUrl}/payment-requests/${encodeURIComponent(id)}` };
+      },
+
+      async executePayment(paymentRequestToken) {
+        const { paymentRequest } = await verifyPaymentRequestToken(
+          paymentRequestToken,
+          { resolver, issuer: service.did }
+        );
+
+        if (paidRequestIds.has(paymentRequest.id)) {
+          throw new Error(`Payment request ${paymentRequest.id} already paid`);
+        }
+
+        const [option] = paymentRequest.paymentOptions;
+        const amount = Number(option.amount) / 10 ** option.decimals;
+        const payee = agentsByRecipient.get(option.recipient);
+        if (!payee) {
+          throw new Error(`Unknown payment recipient ${option.recipient}`);
+        }
+
+        const payerBalance = balances.get(agentId) ?? 0;
+        if (payerBalance < amount) {
+          throw new Error(
+            `Insufficient balance: $${payerBalance} available, $${amount} required`
+          );
+        }
+
+        balances.set(agentId, payerBalance - amount);
+        balances.set(payee, (balances.get(payee) ?? 0) + amount);
+        paidRequestIds.add(paymentRequest.id);
+
+        const receipt = createPaymentReceipt({
+          paymentRequestToken,
+          paymentOptionId: option.id,
+          issuer: service.did,
+          payerDid: identity.did,
+          expirationDate: new Date(Date.now() + RECEIPT_TTL_MS),
+        });
+        const receiptJwt = await signCredential(receipt, {
+          did: service.did,
+          signer: service.signer,
+          alg: service.alg,
+        });
+
+        const receiptId = randomUUID();
+        receipts.set(receiptId, receiptJwt);
+
+        logger.transaction("Mock ACK-Lab payment settled", {
+          From: agentId,
+          To: payee,
+          Amount: `$${amount}`,
+        });
+
+        return { url: `${baseUrl}/receipts/${receiptId}` };
+      },
+
+      async verifyPaymentReceipt(receiptJwt) {
+        const { paymentRequest } = await verifyPaymentReceipt(receiptJwt, {
+          resolver,
+          trustedReceiptIssuers: [service.did],
+          paymentRequestIssuer: service.did,
+          verifyPaymentRequestTokenJwt: true,
+        });
+
+        if (
+          !paymentRequest?.paymentOptions.some(
+            (option) => option.recipient === recipient
+          )
+        ) {
+          throw new Error("Receipt is not for a payment to this agent");
+        }
+
+        return { paymentRequestId: paymentRequest.id };
+      },
+
+      createAgentCaller<I extends z.ZodTypeAny, O extends z.ZodTypeAny>(
+        url: string,
+        inputSchema: I,
+        outputSchema: O
+      ) {
+        return async (input: z.infer<I>): Promise<z.infer<O>> => {
+          const correlationId = getCorrelationId();
+          const response = await fetch(url, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              ...(correlationId && { "X-Correlation-Id": correlationId }),
+            },
+            body: JSON.stringify({
+              jwt: await signData(inputSchema.parse(input)),
+            }),
+          });
+
+          if (!response.ok) {
+            throw new Error(`Agent call failed with status ${response.status}`);
+          }
+
+          const { jwt } = (await response.json()) as { jwt: string };
+          return outputSchema.parse(await readData(jwt));
+        };
+      },
+
+      createRequestHandler<I extends z.ZodTypeAny, O>(
+        inputSchema: I,
+        handler: (input: z.infer<I>) => Promise<O>
+      ) {
+        return async (jwt: string) => {
+          const input = inputSchema.parse(await readData(jwt));
+          return { jwt: await signData(await handler(input)) };
+        };
+      },
+    };
+
+    return client;
+  }
+
+  return {
+    baseUrl,
+    issuerDid: service.did,
+    createAgent,
+    getBalance: (agentId) => balances.get(agentId) ?? 0,
+    start: () =>
+      serve({ fetch: app.fetch, port: Number(new URL(baseUrl).port) }),
+  };
+}
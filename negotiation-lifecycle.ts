@@ -0,0 +1,122 @@
+import type { AuditTrail } from "./audit-trail";
+import type { NegotiationState, PendingNegotiation } from "./data-models";
+
+export interface NegotiationTimeouts {
+  // How long an offer, counter-offer or agreement stays open without activity
+  negotiationTtlMs: number;
+  // How long a payment request can go unpaid
+  invoiceTtlMs: number;
+  // How long delivered and ended negotiations are kept before removal
+  retentionMs: number;
+}
+
+export type TransitionResult = { ok: true } | { ok: false; error: string };
+
+// Agreements can still be reopened by a new offer until they are invoiced.
+// Invoiced and paid negotiations are only cancelled by refunding the payment
+const TRANSITIONS: Record<NegotiationState, NegotiationState[]> = {
+  open: ["countered", "agreed", "closed", "cancelled", "expired"],
+  countered: ["countered", "agreed", "closed", "cancelled", "expired"],
+  agreed: ["countered", "agreed", "invoiced", "closed", "cancelled", "expired"],
+  invoiced: ["paid", "cancelled", "expired"],
+  paid: ["delivered", "cancelled"],
+  delivered: [],
+  closed: [],
+  cancelled: [],
+  expired: [],
+};
+
+const NEGOTIABLE_STATES: NegotiationState[] = ["open", "countered", "agreed"];
+const ENDED_STATES: NegotiationState[] = ["closed", "cancelled", "expired"];
+
+export function isNegotiable(negotiation: PendingNegotiation): boolean {
+  return NEGOTIABLE_STATES.includes(negotiation.state);
+}
+
+// Ended without a sale
+export function hasEnded(negotiation: PendingNegotiation): boolean {
+  return ENDED_STATES.includes(negotiation.state);
+}
+
+// Delivered or ended, so nothing more can happen to it
+export function isFinal(negotiation: PendingNegotiation): boolean {
+  return TRANSITIONS[negotiation.state].length === 0;
+}
+
+/**
+ * Moves a negotiation to its next state and stamps when it happened, or
+ * explains why the lifecycle does not allow it. The caller saves it.
+ */
+export function transition(
+  negotiation: PendingNegotiation,
+  to: NegotiationState,
+  now = Date.now()
+): TransitionResult {
+  if (!TRANSITIONS[negotiation.state].includes(to)) {
+    return {
+      ok: false,
+      error: `A negotiation that is ${negotiation.state} cannot become ${to}`,
+    };
+  }
+
+  negotiation.state = to;
+  negotiation.updatedAt = new Date(now).toISOString();
+  return { ok: true };
+}
+
+/**
+ * `transition`, recording a step the lifecycle refuses in the audit trail.
+ * A refused step usually means something else moved the negotiation on
+ * first, such as the sweeper expiring it, so the caller must return the
+ * error and save nothing.
+ */
+export async function auditedTransition(
+  auditTrail: AuditTrail,
+  negotiationId: string,
+  negotiation: PendingNegotiation,
+  to: NegotiationState,
+  now = Date.now()
+): Promise<TransitionResult> {
+  const from = negotiation.state;
+  const result = transition(negotiation, to, now);
+  if (!result.ok) {
+    await auditTrail.record(negotiationId, "transition-refused", {
+      from,
+      to,
+      error: result.error,
+    });
+  }
+  return result;
+}
+
+/**
+ * Whether a negotiation has waited too long for its next step: an open
+ * negotiation for the buyer's next offer, an invoiced one for payment.
+ * Paid negotiations never expire, since the buyer's money has moved.
+ */
+export function isStale(
+  negotiation: PendingNegotiation,
+  timeouts: NegotiationTimeouts,
+  now = Date.now()
+): boolean {
+  const idleMs = now - Date.parse(negotiation.updatedAt);
+  if (isNegotiable(negotiation)) return idleMs > timeouts.negotiationTtlMs;
+  if (negotiation.state === "invoiced") return idleMs > timeouts.invoiceTtlMs;
+  return false;
+}
+
+// What to tell a buyer who makes an offer the negotiation can no longer take
+export function describeState(negotiation: PendingNegotiation): string {
+  switch (negotiation.state) {
+    case "closed":
+      return "This negotiation has been closed. Please start a new request.";
+    case "cancelled":
+      return "The seller cancelled this negotiation. Please start a new request.";
+    case "expired":
+      return "This negotiation expired without activity. Please start a new request.";
+    case "invoiced":
+      return "A payment request was already issued for this negotiation. Pay it, or start a new request.";
+    default:
+      return "This negotiation has already been paid for.";
+  }
+}
@@ -0,0 +1,280 @@
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import { rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type {
+  CompletedTransaction,
+  Dispute,
+  PendingNegotiation,
+  SubscriptionGrant,
+} from "./data-models";
+import { createWriteQueue } from "./write-queue";
+
+export type StoreDriver = "memory" | "file";
+
+export interface StoreConfig {
+  driver: StoreDriver;
+  filePath: string;
+}
+
+/**
+ * Storage for the seller's negotiation state. Negotiations are keyed by
+ * negotiation ID, completed transactions and disputes by payment request
+ * ID and subscription grants by grant ID.
+ */
+export interface NegotiationStore {
+  getNegotiation(
+    negotiationId: string
+  ): Promise<PendingNegotiation | undefined>;
+  saveNegotiation(
+    negotiationId: string,
+    negotiation: PendingNegotiation
+  ): Promise<void>;
+  deleteNegotiation(negotiationId: string): Promise<void>;
+  findNegotiationByPaymentRequestId(
+    paymentRequestId: string
+  ): Promise<
+    { negotiationId: string; negotiation: PendingNegotiation } | undefined
+  >;
+  getTransaction(
+    paymentRequestId: string
+  ): Promise<CompletedTransaction | undefined>;
+  saveTransaction(
+    paymentRequestId: string,
+    transaction: CompletedTransaction
+  ): Promise<void>;
+  listNegotiations(): Promise<
+    { negotiationId: string; negotiation: PendingNegotiation }[]
+  >;
+  listTransactions(): Promise<
+    { paymentRequestId: string; transaction: CompletedTransaction }[]
+  >;
+  getGrant(grantId: string): Promise<SubscriptionGrant | undefined>;
+  saveGrant(grantId: string, grant: SubscriptionGrant): Promise<void>;
+  listGrants(): Promise<{ grantId: string; grant: SubscriptionGrant }[]>;
+  getDispute(paymentRequestId: string): Promise<Dispute | undefined>;
+  saveDispute(paymentRequestId: string, dispute: Dispute): Promise<void>;
+  listDisputes(): Promise<{ paymentRequestId: string; dispute: Dispute }[]>;
+  // Saves everything a delivery changes in one write, so a crash cannot
+  // leave a transaction recorded for a negotiation that was never delivered
+  saveDelivery(delivery: Delivery): Promise<void>;
+}
+
+export interface Delivery {
+  negotiationId: string;
+  negotiation: PendingNegotiation;
+  paymentRequestId: string;
+  transaction: CompletedTransaction;
+  grant?: { grantId: string; grant: SubscriptionGrant };
+}
+
+interface StoreSnapshot {
+  negotiations: Record<string, LegacyNegotiation>;
+  transactions: Record<string, CompletedTransaction>;
+  grants?: Record<string, SubscriptionGrant>;
+  disputes?: Record<string, Dispute>;
+}
+
+interface StoreMaps {
+  negotiations: Map<string, PendingNegotiation>;
+  transactions: Map<string, CompletedTransaction>;
+  grants: Map<string, SubscriptionGrant>;
+  disputes: Map<string, Dispute>;
+}
+
+// Stores written before negotiations had a lifecycle flagged ended ones as
+// closed or cancelled, and work out the rest from how far they got
+type LegacyNegotiation = Omit<PendingNegotiation, "state" | "updatedAt"> &
+  Partial<PendingNegotiation> & { closed?: boolean; cancelled?: boolean };
+
+function withLifecycle({
+  closed,
+  cancelled,
+  ...negotiation
+}: LegacyNegotiation): PendingNegotiation {
+  const state =
+    negotiation.state ??
+    (cancelled
+      ? "cancelled"
+      : closed
+        ? "closed"
+        : negotiation.paymentRequestId
+          ? "invoiced"
+          : negotiation.agreedPrice !== undefined
+            ? "agreed"
+            : negotiation.counterOffer !== undefined
+              ? "countered"
+              : "open");
+
+  return {
+    ...negotiation,
+    state,
+    updatedAt: negotiation.updatedAt ?? new Date().toISOString(),
+  };
+}
+
+function createStoreFromMaps(
+  { negotiations, transactions, grants, disputes }: StoreMaps,
+  onChange: () => Promise<void>
+): NegotiationStore {
+  return {
+    async getNegotiation(negotiationId) {
+      return negotiations.get(negotiationId);
+    },
+
+    async saveNegotiation(negotiationId, negotiation) {
+      negotiations.set(negotiationId, negotiation);
+      await onChange();
+    },
+
+    async deleteNegotiation(negotiationId) {
+      negotiations.delete(negotiationId);
+      await onChange();
+    },
+
+    async findNegotiationByPaymentRequestId(paymentRequestId) {
+      for (const [negotiationId, negotiation] of negotiations) {
+        if (negotiation.paymentRequestId === paymentRequestId) {
+          return { negotiationId, negotiation };
+        }
+      }
+      return undefined;
+    },
+
+    async getTransaction(paymentRequestId) {
+      return transactions.get(paymentRequestId);
+    },
+
+    async saveTransaction(paymentRequestId, transaction) {
+      transactions.set(paymentRequestId, transaction);
+      await onChange();
+    },
+
+    async listNegotiations() {
+      return [...negotiations].map(([negotiationId, negotiation]) => ({
+        negotiationId,
+        negotiation,
+      }));
+    },
+
+    async listTransactions() {
+      return [...transactions].map(([paymentRequestId, transaction]) => ({
+        paymentRequestId,
+        transaction,
+      }));
+    },
+
+    async getGrant(grantId) {
+      return grants.get(grantId);
+    },
+
+    async saveGrant(grantId, grant) {
+      grants.set(grantId, grant);
+      await onChange();
+    },
+
+    async listGrants() {
+      return [...grants].map(([grantId, grant]) => ({ grantId, grant }));
+    },
+
+    async getDispute(paymentRequestId) {
+      return disputes.get(paymentRequestId);
+    },
+
+    async saveDispute(paymentRequestId, dispute) {
+      disputes.set(paymentRequestId, dispute);
+      await onChange();
+    },
+
+    async listDisputes() {
+      return [...disputes].map(([paymentRequestId, dispute]) => ({
+        paymentRequestId,
+        dispute,
+      }));
+    },
+
+    async saveDelivery({
+      negotiationId,
+      negotiation,
+      paymentRequestId,
+      transaction,
+      grant,
+    }) {
+      negotiations.set(negotiationId, negotiation);
+      transactions.set(paymentRequestId, transaction);
+      if (grant) grants.set(grant.grantId, grant.grant);
+      await onChange();
+    },
+  };
+}
+
+export function createInMemoryStore(): NegotiationStore {
+  return createStoreFromMaps(
+    {
+      negotiations: new Map(),
+      transactions: new Map(),
+      grants: new Map(),
+      disputes: new Map(),
+    },
+    async () => {}
+  );
+}
+
+/**
+ * File-backed store. The whole state is kept in memory and written to a
+ * JSON file after every change, so it survives a server restart.
+ */
+export function createFileStore(filePath: string): NegotiationStore {
+  let snapshot: StoreSnapshot = { negotiations: {}, transactions: {} };
+  if (existsSync(filePath)) {
+    snapshot = JSON.parse(readFileSync(filePath, "utf8")) as StoreSnapshot;
+  } else {
+    mkdirSync(dirname(filePath), { recursive: true });
+  }
+
+  const maps: StoreMaps = {
+    negotiations: new Map(
+      Object.entries(snapshot.negotiations).map(([id, negotiation]) => [
+        id,
+        withLifecycle(negotiation),
+      ])
+    ),
+    transactions: new Map(Object.entries(snapshot.transactions)),
+    // Stores written before subscriptions or disputes existed lack them
+    grants: new Map(Object.entries(snapshot.grants ?? {})),
+    disputes: new Map(Object.entries(snapshot.disputes ?? {})),
+  };
+
+  const enqueueWrite = createWriteQueue();
+
+  const persist = () => {
+    const contents = JSON.stringify(
+      {
+        negotiations: Object.fromEntries(maps.negotiations),
+        transactions: Object.fromEntries(maps.transactions),
+        grants: Object.fromEntries(maps.grants),
+        disputes: Object.fromEntries(maps.disputes),
+      } satisfies StoreSnapshot,
+      null,
+      2
+    );
+
+    return enqueueWrite(async () => {
+      const tempPath = `${filePath}.tmp`;
+      await writeFile(tempPath, contents);
+      await rename(tempPath, filePath);
+    });
+  };
+
+  return createStoreFromMaps(maps, persist);
+}
+
+export function createNegotiationStore(config: StoreConfig): NegotiationStore {
+  switch (config.driver) {
+    case "memory":
+      return createInMemoryStore();
+    case "file":
+      return createFileStore(config.filePath);
+    default:
+      throw new Error(`Unknown store driver: ${config.driver as string}`);
+  }
+}
@@ -0,0 +1,99 @@
+import type { AuditTrail } from "./audit-trail";
+import { logger } from "./logger";
+import {
+  auditedTransition,
+  isFinal,
+  isStale,
+  type NegotiationTimeouts,
+} from "./negotiation-lifecycle";
+import type { NegotiationStore } from "./negotiation-store";
+
+export interface SweepResult {
+  expired: string[];
+  removed: string[];
+}
+
+/**
+ * Expires negotiations and payment requests that have waited too long,
+ * and removes delivered and ended negotiations once they are past the
+ * retention period. `sweep()` runs once; `start()` runs it on an interval
+ * until `stop()`.
+ */
+export interface NegotiationSweeper {
+  sweep(now?: number): Promise<SweepResult>;
+  start(intervalMs: number): void;
+  stop(): void;
+}
+
+export function createNegotiationSweeper({
+  negotiationStore,
+  auditTrail,
+  timeouts,
+}: {
+  negotiationStore: NegotiationStore;
+  auditTrail: AuditTrail;
+  timeouts: NegotiationTimeouts;
+}): NegotiationSweeper {
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const sweeper: NegotiationSweeper = {
+    async sweep(now = Date.now()) {
+      const result: SweepResult = { expired: [], removed: [] };
+
+      for (const {
+        negotiationId,
+        negotiation,
+      } of await negotiationStore.listNegotiations()) {
+        if (isStale(negotiation, timeouts, now)) {
+          const from = negotiation.state;
+          const moved = await auditedTransition(
+            auditTrail,
+            negotiationId,
+            negotiation,
+            "expired",
+            now
+          );
+          if (!moved.ok) continue;
+          await negotiationStore.saveNegotiation(negotiationId, negotiation);
+          await auditTrail.record(negotiationId, "negotiation-expired", {
+            from,
+            paymentRequestId: negotiation.paymentRequestId,
+          });
+          result.expired.push(negotiationId);
+        } else if (
+          isFinal(negotiation) &&
+          now - Date.parse(negotiation.updatedAt) > timeouts.retentionMs
+        ) {
+          await negotiationStore.deleteNegotiation(negotiationId);
+          result.removed.push(negotiationId);
+        }
+      }
+
+      if (result.expired.length > 0 || result.removed.length > 0) {
+        logger.process("Swept negotiations", {
+          Expired: result.expired.length,
+          Removed: result.removed.length,
+        });
+      }
+      return result;
+    },
+
+    start(intervalMs) {
+      sweeper.stop();
+      timer = setInterval(() => {
+        sweeper.sweep().catch((error) => {
+          logger.error("Negotiation sweep failed", error);
+        });
+      }, intervalMs);
+      // The sweeper alone should not keep the process running
+      timer.unref();
+    },
+
+    stop() {
+      clearInterval(timer);
+      timer = undefined;
+    },
+  };
+
+  return sweeper;
+}
@@ -0,0 +1,103 @@
+import {
+  verifyPaymentRequestToken,
+  type PaymentOption,
+  type PaymentRequest,
+  type Resolvable,
+} from "agentcommercekit";
+
+export interface PaymentExpectations {
+  amount: number;
+  resourceName: string;
+}
+
+interface VerificationOptions {
+  resolver: Resolvable;
+  trustedIssuers: string[];
+  expectedPayees: string[];
+}
+
+export type PaymentRequestVerification =
+  | {
+      valid: true;
+      paymentRequest: PaymentRequest;
+      paymentOption: PaymentOption;
+      amount: number;
+    }
+  | { valid: false; reason: string };
+
+export function getPaymentOptionAmount(option: PaymentOption): number {
+  return Number(option.amount) / 10 ** option.decimals;
+}
+
+// Payees may be configured either as a full identifier or as the trailing
+// segment of one, e.g. an agent ID at the end of its DID
+function isExpectedPayee(recipient: string, expectedPayees: string[]) {
+  return expectedPayees.some(
+    (payee) => recipient === payee || recipient.endsWith(`:${payee}`)
+  );
+}
+
+/**
+ * Verifies a payment request token before the buyer pays it: the token
+ * must be signed by a trusted issuer and not expired, it must pay the
+ * expected seller, and its amount and description must match what was
+ * negotiated.
+ */
+export async function verifyPaymentRequestForPurchase(
+  token: string,
+  expectations: PaymentExpectations,
+  { resolver, trustedIssuers, expectedPayees }: VerificationOptions
+): Promise<PaymentRequestVerification> {
+  let verified: Awaited<ReturnType<typeof verifyPaymentRequestToken>>;
+  try {
+    verified = await verifyPaymentRequestToken(token, { resolver });
+  } catch (error) {
+    return {
+      valid: false,
+      reason: `Payment request signature could not be verified: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    };
+  }
+
+  const { paymentRequest, parsed } = verified;
+
+  if (!trustedIssuers.includes(parsed.issuer)) {
+    return {
+      valid: false,
+      reason: `Payment request was issued by untrusted issuer ${parsed.issuer}`,
+    };
+  }
+
+  const paymentOption = paymentRequest.paymentOptions.find((option) =>
+    isExpectedPayee(option.recipient, expectedPayees)
+  );
+  if (!paymentOption) {
+    return {
+      valid: false,
+      reason: `Payment request does not pay the expected seller (recipients: ${paymentRequest.paymentOptions
+        .map((option) => option.recipient)
+        .join(", ")})`,
+    };
+  }
+
+  const amount = getPaymentOptionAmount(paymentOption);
+  if (amount !== expectations.amount) {
+    return {
+      valid: false,
+      reason: `Payment request is for $${amount}, but $${expectations.amount} was negotiated`,
+    };
+  }
+
+  const description = paymentRequest.description ?? "";
+  if (
+    !description.toLowerCase().includes(expectations.resourceName.toLowerCase())
+  ) {
+    return {
+      valid: false,
+      reason: `Payment request description "${description}" does not mention ${expectations.resourceName}`,
+    };
+  }
+
+  return { valid: true, paymentRequest, paymentOption, amount };
+}
@@ -0,0 +1,160 @@
+import { z } from "zod";
+
+export const pricingStrategySchema = z.discriminatedUnion("type", [
+  // Accept anything at or above the minimum, otherwise counter halfway
+  // between the offer and the list price
+  z.object({ type: z.literal("midpoint") }),
+  // Start at list price and concede towards the minimum as rounds pass.
+  // An exponent above 1 holds out longer, below 1 concedes early
+  z.object({
+    type: z.literal("decaying"),
+    exponent: z.number().positive().default(1),
+  }),
+  // Never go below list price
+  z.object({ type: z.literal("hold-firm") }),
+  // Discount the list price by the largest tier the quantity qualifies for
+  z.object({
+    type: z.literal("volume"),
+    tiers: z
+      .array(
+        z.object({
+          minQuantity: z.number().int().positive(),
+          discount: z.number().min(0).max(1),
+        })
+      )
+      .min(1),
+  }),
+]);
+
+export type PricingStrategyConfig = z.infer<typeof pricingStrategySchema>;
+
+/**
+ * Prices in the context are totals for the requested quantity.
+ */
+export interface NegotiationContext {
+  listPrice: number;
+  minimumPrice: number;
+  offeredPrice: number;
+  quantity: number;
+  round: number;
+  maxRounds: number;
+}
+
+export type PricingDecision =
+  { accepted: true; price: number } | { accepted: false; counterOffer: number };
+
+export interface PricingStrategy {
+  decide(context: NegotiationContext): PricingDecision;
+}
+
+function clampToFloor(price: number, minimumPrice: number): number {
+  return Math.max(minimumPrice, Math.round(price));
+}
+
+/**
+ * Accepts when the offer reaches `target`, otherwise counters with it.
+ */
+function acceptAtOrCounter(
+  offeredPrice: number,
+  target: number
+): PricingDecision {
+  return offeredPrice >= target
+    ? { accepted: true, price: offeredPrice }
+    : { accepted: false, counterOffer: target };
+}
+
+const midpointStrategy: PricingStrategy = {
+  decide: ({ listPrice, minimumPrice, offeredPrice }) => {
+    if (offeredPrice >= minimumPrice) {
+      return { accepted: true, price: offeredPrice };
+    }
+    return {
+      accepted: false,
+      counterOffer: Math.max(
+        minimumPrice,
+        Math.floor((offeredPrice + listPrice) / 2)
+      ),
+    };
+  },
+};
+
+function createDecayingStrategy(exponent: number): PricingStrategy {
+  return {
+    decide: ({ listPrice, minimumPrice, offeredPrice, round, maxRounds }) => {
+      const progress =
+        maxRounds <= 1 ? 1 : Math.min(1, (round - 1) / (maxRounds - 1));
+      const target = clampToFloor(
+        listPrice - (listPrice - minimumPrice) * progress ** exponent,
+        minimumPrice
+      );
+      return acceptAtOrCounter(offeredPrice, target);
+    },
+  };
+}
+
+const holdFirmStrategy: PricingStrategy = {
+  decide: ({ listPrice, offeredPrice }) =>
+    acceptAtOrCounter(offeredPrice, listPrice),
+};
+
+function createVolumeStrategy(
+  tiers: { minQuantity: number; discount: number }[]
+): PricingStrategy {
+  return {
+    decide: ({ listPrice, minimumPrice, offeredPrice, quantity }) => {
+      const discount = tiers
+        .filter((tier) => quantity >= tier.minQuantity)
+        .reduce((best, tier) => Math.max(best, tier.discount), 0);
+      const target = clampToFloor(listPrice * (1 - discount), minimumPrice);
+      return acceptAtOrCounter(offeredPrice, target);
+    },
+  };
+}
+
+/**
+ * Builds the strategy described by a catalogue entry. Whatever the
+ * strategy decides, offers at or above list price are accepted at list
+ * price and nothing below the minimum price is ever accepted.
+ */
+export function createPricingStrategy(
+  config: PricingStrategyConfig
+): PricingStrategy {
+  let strategy: PricingStrategy;
+  switch (config.type) {
+    case "midpoint":
+      strategy = midpointStrategy;
+      break;
+    case "decaying":
+      strategy = createDecayingStrategy(config.exponent);
+      break;
+    case "hold-firm":
+      strategy = holdFirmStrategy;
+      break;
+    case "volume":
+      strategy = createVolumeStrategy(config.tiers);
+      break;
+  }
+
+  return {
+    decide: (context) => {
+      if (context.offeredPrice >= context.listPrice) {
+        return { accepted: true, price: context.listPrice };
+      }
+
+      const decision = strategy.decide(context);
+      if (decision.accepted && decision.price < context.minimumPrice) {
+        return { accepted: false, counterOffer: context.minimumPrice };
+      }
+      if (!decision.accepted) {
+        return {
+          accepted: false,
+          counterOffer: Math.min(
+            context.listPrice,
+            Math.max(context.minimumPrice, decision.counterOffer)
+          ),
+        };
+      }
+      return decision;
+    },
+  };
+}
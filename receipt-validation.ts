@@ -0,0 +1,69 @@
+import type { PendingNegotiation } from "./data-models";
+import type { ReceiptDetails } from "./receipts";
+
+export type ReceiptRejectionCode =
+  | "receipt_expired"
+  | "amount_unknown"
+  | "amount_mismatch"
+  | "payer_unknown"
+  | "payer_mismatch";
+
+export interface ReceiptRejection {
+  code: ReceiptRejectionCode;
+  message: string;
+}
+
+interface DeliveryRequest {
+  receipt: ReceiptDetails;
+  negotiation: PendingNegotiation;
+  now?: number;
+}
+
+/**
+ * Checks that a verified receipt pays for what was invoiced: it has not
+ * expired, it paid exactly the invoiced amount, and it was paid by the
+ * agent that negotiated. Returns every reason delivery must be refused,
+ * or an empty list when the purchase can be delivered.
+ */
+export function validateReceiptForDelivery({
+  receipt,
+  negotiation,
+  now = Date.now(),
+}: DeliveryRequest): ReceiptRejection[] {
+  const rejections: ReceiptRejection[] = [];
+
+  if (receipt.expiresAt !== undefined && receipt.expiresAt <= now) {
+    rejections.push({
+      code: "receipt_expired",
+      message: `The receipt expired at ${new Date(receipt.expiresAt).toISOString()}`,
+    });
+  }
+
+  if (receipt.amount === undefined) {
+    rejections.push({
+      code: "amount_unknown",
+      message: "The receipt does not state the amount paid",
+    });
+  } else if (receipt.amount !== negotiation.agreedPrice) {
+    rejections.push({
+      code: "amount_mismatch",
+      message: `The receipt is for $${receipt.amount}, but $${negotiation.agreedPrice} was invoiced`,
+    });
+  }
+
+  // A negotiation made without an authenticated caller has no negotiating
+  // agent to bind the payer to
+  if (!receipt.payer) {
+    rejections.push({
+      code: "payer_unknown",
+      message: "The receipt does not name its payer",
+    });
+  } else if (negotiation.buyer && receipt.payer !== negotiation.buyer) {
+    rejections.push({
+      code: "payer_mismatch",
+      message: `The receipt was paid by ${receipt.payer}, not by ${negotiation.buyer} who negotiated this purchase`,
+    });
+  }
+
+  return rejections;
+}
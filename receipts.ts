@@ -0,0 +1,67 @@
+import type { PaymentOption } from "agentcommercekit";
+import { getPaymentOptionAmount } from "./payment-request-verification";
+
+/**
+ * What a receipt says about the payment it records. Any field the receipt
+ * does not carry is left out.
+ */
+export interface ReceiptDetails {
+  payer?: string;
+  paymentRequestId?: string;
+  paymentOptionId?: string;
+  amount?: number;
+  expiresAt?: number;
+}
+
+interface ReceiptPayload {
+  sub?: string;
+  exp?: number;
+  vc?: {
+    credentialSubject?: {
+      id?: string;
+      paymentRequestToken?: string;
+      paymentOptionId?: string;
+    };
+  };
+}
+
+interface PaymentRequestPayload {
+  id?: string;
+  paymentOptions?: PaymentOption[];
+}
+
+export function decodeJwtPayload(token: string): object | null {
+  try {
+    const tokenParts = token.split(".");
+    if (tokenParts.length !== 3) return null;
+    return JSON.parse(Buffer.from(tokenParts[1], "base64").toString());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the payer, the paid amount and the expiry out of a receipt and the
+ * payment request embedded in it. Nothing is verified here, so only read
+ * receipts that have already passed `verifyPaymentReceipt`.
+ */
+export function readReceiptDetails(receiptJwt: string): ReceiptDetails {
+  const receipt = decodeJwtPayload(receiptJwt) as ReceiptPayload | null;
+  const subject = receipt?.vc?.credentialSubject;
+  const paymentRequest = subject?.paymentRequestToken
+    ? (decodeJwtPayload(
+        subject.paymentRequestToken
+      ) as PaymentRequestPayload | null)
+    : null;
+  const paymentOption = paymentRequest?.paymentOptions?.find(
+    (option) => option.id === subject?.paymentOptionId
+  );
+
+  return {
+    payer: receipt?.sub ?? subject?.id,
+    paymentRequestId: paymentRequest?.id,
+    paymentOptionId: subject?.paymentOptionId,
+    amount: paymentOption && getPaymentOptionAmount(paymentOption),
+    expiresAt: receipt?.exp && receipt.exp * 1000,
+  };
+}
@@ -0,0 +1,268 @@
+import { readFileSync } from "node:fs";
+import type { LanguageModel } from "ai";
+import { z } from "zod";
+
+type ScriptedLanguageModel = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<ScriptedLanguageModel["doGenerate"]>[0];
+type Prompt = CallOptions["prompt"];
+
+const scriptedStepSchema = z
+  .object({
+    text: z.string().optional(),
+    toolCalls: z
+      .array(
+        z.object({
+          toolName: z.string(),
+          input: z.record(z.unknown()).default({}),
+        })
+      )
+      .optional(),
+  })
+  .refine((step) => step.text !== undefined || step.toolCalls?.length, {
+    message: "A step needs text or at least one tool call",
+  });
+
+const scriptedTurnSchema = z.object({
+  // Case-insensitive text the incoming message must contain. A turn
+  // without one matches any message
+  match: z.string().optional(),
+  steps: z.array(scriptedStepSchema).min(1),
+});
+
+export const scriptedModelFixtureSchema = z.record(
+  z.array(scriptedTurnSchema).min(1)
+);
+
+export type ScriptedStep = z.infer<typeof scriptedStepSchema>;
+export type ScriptedTurn = z.infer<typeof scriptedTurnSchema>;
+export type ScriptedModelFixture = z.infer<typeof scriptedModelFixtureSchema>;
+
+export function loadScriptedModelFixture(path: string): ScriptedModelFixture {
+  return scriptedModelFixtureSchema.parse(
+    JSON.parse(readFileSync(path, "utf8"))
+  );
+}
+
+function getLastUserIndex(prompt: Prompt): number {
+  for (let i = prompt.length - 1; i >= 0; i--) {
+    if (prompt[i].role === "user") return i;
+  }
+  return -1;
+}
+
+function getLastUserMessage(prompt: Prompt): string {
+  const message = prompt[getLastUserIndex(prompt)];
+  if (message?.role !== "user") return "";
+  return message.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("");
+}
+
+// Each tool round trip adds an assistant message after the user's message,
+// so counting them tells us which step of the turn we are on
+function getStepIndex(prompt: Prompt): number {
+  return prompt
+    .slice(getLastUserIndex(prompt) + 1)
+    .filter((m) => m.role === "assistant").length;
+}
+
+// Everything the agent has seen so far, newest first
+function getPromptValues(prompt: Prompt): unknown[] {
+  const values: unknown[] = [];
+  for (const message of prompt) {
+    if (message.role === "user") {
+      for (const part of message.content) {
+        if (part.type === "text") values.push(part.text);
+      }
+    } else if (message.role === "tool") {
+      for (const part of message.content) {
+        values.push(part.output.value);
+      }
+    }
+  }
+  return values.reverse();
+}
+
+function findField(value: unknown, field: string): unknown {
+  if (typeof value === "string") {
+    try {
+      return findField(JSON.parse(value), field);
+    } catch {
+      return undefined;
+    }
+  }
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findField(item, field);
+      if (found !== undefined) return found;
+    }
+    return undefined;
+  }
+  if (value && typeof value === "object") {
+    if (field in value) return (value as Record<string, unknown>)[field];
+    return findField(Object.values(value), field);
+  }
+  return undefined;
+}
+
+function findTag(value: unknown, tag: string): string | undefined {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  const match = text?.match(new RegExp(`<${tag}>\\s*(.*?)\\s*</${tag}>`, "s"));
+  return match?.[1];
+}
+
+function findLatestToolResult(prompt: Prompt): string | undefined {
+  for (let i = prompt.length - 1; i >= 0; i--) {
+    const message = prompt[i];
+    if (message.role === "tool" && message.content.length > 0) {
+      const { value } = message.content[message.content.length - 1].output;
+      return typeof value === "string" ? value : JSON.stringify(value);
+    }
+  }
+  return undefined;
+}
+
+function resolvePlaceholder(placeholder: string, prompt: Prompt): unknown {
+  if (placeholder === "result") {
+    const result = findLatestToolResult(prompt);
+    if (result !== undefined) return result;
+  } else {
+    const [kind, name] = placeholder.split(":");
+    for (const candidate of getPromptValues(prompt)) {
+      const found =
+        kind === "tag" ? findTag(candidate, name) : findField(candidate, name);
+      if (found !== undefined) return found;
+    }
+  }
+
+  throw new Error(`Scripted model could not resolve {{${placeholder}}}`);
+}
+
+const PLACEHOLDER_PATTERN = "\\{\\{((?:tag|field):[\\w-]+|result)\\}\\}";
+
+/**
+ * Fills `{{tag:name}}` with the text between `<name>` markers,
+ * `{{field:name}}` with the value of a tool result field and `{{result}}`
+ * with the latest tool result as a whole, taking the most recent
+ * occurrence in the prompt. A string that is exactly one placeholder
+ * keeps the type of the value it resolves to.
+ */
+function resolvePlaceholders(value: unknown, prompt: Prompt): unknown {
+  if (typeof value === "string") {
+    const whole = value.match(new RegExp(`^${PLACEHOLDER_PATTERN}$`));
+    if (whole) return resolvePlaceholder(whole[1], prompt);
+
+    return value.replace(
+      new RegExp(PLACEHOLDER_PATTERN, "g"),
+      (_, placeholder: string) =>
+        String(resolvePlaceholder(placeholder, prompt))
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolvePlaceholders(item, prompt));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        resolvePlaceholders(item, prompt),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * A language model that replays scripted turns instead of calling an LLM.
+ * Each incoming message picks the first turn whose `match` it contains,
+ * and each model call within that turn plays the next step, so the agent
+ * runs its real tools in a reproducible order.
+ */
+export function createScriptedModel(
+  agentName: string,
+  turns: ScriptedTurn[]
+): ScriptedLanguageModel {
+  let toolCallCount = 0;
+
+  function nextStep(prompt: Prompt) {
+    const message = getLastUserMessage(prompt);
+    const turn = turns.find(
+      (t) =>
+        t.match === undefined ||
+        message.toLowerCase().includes(t.match.toLowerCase())
+    );
+    if (!turn) {
+      throw new Error(`No scripted ${agentName} turn matches "${message}"`);
+    }
+
+    const stepIndex = getStepIndex(prompt);
+    const step = turn.steps[stepIndex];
+    if (!step) {
+      throw new Error(
+        `Scripted ${agentName} turn "${turn.match ?? "*"}" has no step ${stepIndex + 1}`
+      );
+    }
+
+    const content = [
+      ...(step.text === undefined
+        ? []
+        : [
+            {
+              type: "text" as const,
+              text: String(resolvePlaceholders(step.text, prompt)),
+            },
+          ]),
+      ...(step.toolCalls ?? []).map((call) => ({
+        type: "tool-call" as const,
+        toolCallId: `scripted-${agentName}-${++toolCallCount}`,
+        toolName: call.toolName,
+        input: JSON.stringify(resolvePlaceholders(call.input, prompt)),
+      })),
+    ];
+
+    return {
+      content,
+      finishReason: step.toolCalls?.length
+        ? ("tool-calls" as const)
+        : ("stop" as const),
+      usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+      warnings: [],
+    };
+  }
+
+  return {
+    specificationVersion: "v2",
+    provider: "scripted",
+    modelId: agentName,
+    supportedUrls: {},
+
+    async doGenerate({ prompt }) {
+      return nextStep(prompt);
+    },
+
+    async doStream({ prompt }) {
+      const { content, finishReason, usage, warnings } = nextStep(prompt);
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.enqueue({ type: "stream-start", warnings });
+          for (const part of content) {
+            if (part.type === "text") {
+              controller.enqueue({ type: "text-start", id: "text" });
+              controller.enqueue({
+                type: "text-delta",
+                id: "text",
+                delta: part.text,
+              });
+              controller.enqueue({ type: "text-end", id: "text" });
+            } else {
+              controller.enqueue(part);
+            }
+          }
+          controller.enqueue({ type: "finish", finishReason, usage });
+          controller.close();
+        },
+      });
+      return { stream };
+    },
+  };
+}
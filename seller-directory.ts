@@ -0,0 +1,133 @@
+import type { AgentCard, AgentCardResource } from "./agent-card";
+import { searchCatalogue } from "./catalogue-search";
+
+export interface SellerListing {
+  name: string;
+  url: string;
+  chatUrl: string;
+  did?: string;
+  resources: AgentCardResource[];
+}
+
+export interface SellerOffer {
+  seller: string;
+  resourceId: string;
+  resourceName: string;
+  listPrice: number;
+  negotiable: boolean;
+  relevance: number;
+}
+
+export interface SellerComparison {
+  query: string;
+  offers: SellerOffer[];
+  bestOffer?: SellerOffer;
+  unavailableSellers: { url: string; error: string }[];
+}
+
+/**
+ * The sellers a buyer shops at, discovered from the agent card each one
+ * publishes. Cards are fetched on first use and again on every
+ * `discover()`, so price changes show up in the next comparison.
+ */
+export interface SellerDirectory {
+  discover(): Promise<{
+    sellers: SellerListing[];
+    unavailableSellers: { url: string; error: string }[];
+  }>;
+  getSellers(): Promise<SellerListing[]>;
+  // Finds a seller by name or URL; without one, the first seller
+  findSeller(nameOrUrl?: string): Promise<SellerListing | undefined>;
+}
+
+async function fetchAgentCard(url: string): Promise<SellerListing> {
+  const response = await fetch(`${url}/.well-known/agent.json`, {
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    throw new Error(`Agent card request failed with status ${response.status}`);
+  }
+
+  const card = (await response.json()) as AgentCard;
+  return {
+    name: card.name,
+    url,
+    chatUrl: card.endpoints.chat,
+    did: card.identity.did,
+    resources: card.catalogue.resources,
+  };
+}
+
+export function createSellerDirectory(sellerUrls: string[]): SellerDirectory {
+  let sellers: SellerListing[] | undefined;
+
+  const directory: SellerDirectory = {
+    async discover() {
+      const results = await Promise.allSettled(sellerUrls.map(fetchAgentCard));
+
+      sellers = results.flatMap((result) =>
+        result.status === "fulfilled" ? [result.value] : []
+      );
+      const unavailableSellers = results.flatMap((result, index) =>
+        result.status === "rejected"
+          ? [
+              {
+                url: sellerUrls[index],
+                error:
+                  result.reason instanceof Error
+                    ? result.reason.message
+                    : String(result.reason),
+              },
+            ]
+          : []
+      );
+
+      return { sellers, unavailableSellers };
+    },
+
+    async getSellers() {
+      return sellers ?? (await directory.discover()).sellers;
+    },
+
+    async findSeller(nameOrUrl) {
+      const known = await directory.getSellers();
+      if (!nameOrUrl) return known[0];
+
+      const wanted = nameOrUrl.toLowerCase();
+      return known.find(
+        (seller) =>
+          seller.name.toLowerCase() === wanted ||
+          seller.url.toLowerCase() === wanted.replace(/\/$/, "")
+      );
+    },
+  };
+
+  return directory;
+}
+
+/**
+ * Ranks every seller's matching resources for a query. Only good matches
+ * count as offers, and the cheapest of them is the best offer; relevance
+ * breaks ties.
+ */
+export function compareSellerOffers(
+  query: string,
+  sellers: SellerListing[]
+): Omit<SellerComparison, "unavailableSellers"> {
+  const offers = sellers
+    .flatMap((seller) =>
+      searchCatalogue(seller.resources, query).matches.map(
+        ({ resource, relevance }): SellerOffer => ({
+          seller: seller.name,
+          resourceId: resource.id,
+          resourceName: resource.name,
+          listPrice: resource.listPrice,
+          negotiable: resource.negotiable,
+          relevance,
+        })
+      )
+    )
+    .sort((a, b) => a.listPrice - b.listPrice || b.relevance - a.relevance);
+
+  return { query, offers, bestOffer: offers[0] };
+}
@@ -0,0 +1,56 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+const sellerInstanceSchema = z.object({
+  // Used in the seller's mock ACK-Lab agent ID and state file names
+  id: z.string().regex(/^[\w-]+$/, "Use only letters, digits, '_' and '-'"),
+  name: z.string().min(1),
+  port: z.number().int().positive(),
+  cataloguePath: z.string().min(1),
+  // The seller's ACK-Lab agent ID, required unless ACK_LAB_MODE=mock
+  agentId: z.string().optional(),
+});
+
+export const sellerInstancesSchema = z
+  .object({ sellers: z.array(sellerInstanceSchema) })
+  .superRefine(({ sellers }, ctx) => {
+    for (const key of ["id", "port"] as const) {
+      const seen = new Set<unknown>();
+      sellers.forEach((seller, index) => {
+        if (seen.has(seller[key])) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["sellers", index, key],
+            message: `Duplicate seller ${key} "${seller[key]}"`,
+          });
+        }
+        seen.add(seller[key]);
+      });
+    }
+  });
+
+export type SellerInstance = z.infer<typeof sellerInstanceSchema>;
+
+/**
+ * Reads the extra seller instances to run alongside the main seller, each
+ * with its own port and catalogue, throwing a descriptive error listing
+ * every invalid field.
+ */
+export function loadSellerInstances(configPath: string): SellerInstance[] {
+  const raw = JSON.parse(readFileSync(configPath, "utf8"));
+  const result = sellerInstancesSchema.safeParse(raw);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid seller instances ${configPath}: ${issues}`);
+  }
+
+  return result.data.sellers;
+}
+
+// storage/marketplace-store.json -> storage/marketplace-store-<id>.json
+export function withInstanceSuffix(filePath: string, id: string): string {
+  return filePath.replace(/(\.[^./]+)?$/, `-${id}$1`);
+}
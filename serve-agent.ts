@@ -1,25 +1,72 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { serve } from "@hono/node-server";
 import { vValidator } from "@hono/valibot-validator";
-import { Hono, type TypedResponse } from "hono";
+import { Hono, type Context, type TypedResponse } from "hono";
+import { streamSSE } from "hono/streaming";
 import * as v from "valibot";
 import { type JwtString } from "agentcommercekit";
 import { jwtStringSchema } from "agentcommercekit/schemas/valibot";
-import type { AckLabAgent } from "@ack-lab/sdk";
-import { logger } from "./logger";
+import type { AckLabClient } from "./ack-lab-client";
+import type { AgentCard } from "./agent-card";
+import { createCorrelationId, logger, withCorrelationId } from "./logger";
 import z from "zod";
 
 const DECODE_JWT = process.env.DECODE_JWT !== "false";
 
-type AgentFn = (prompt: string) => Promise<string>;
+export interface AgentRequest {
+  message: string;
+  sessionId?: string;
+  // Carries the caller's correlation ID across an agent-to-agent hop
+  correlationId?: string;
+}
+
+export interface AgentReply {
+  text: string;
+  sessionId?: string;
+}
+
+export type AgentEvent =
+  | { type: "text-delta"; delta: string }
+  | { type: "tool-call"; toolName: string; input: unknown }
+  | { type: "tool-result"; toolName: string; output: unknown }
+  | { type: "tool-error"; toolName: string; error: string };
+
+type AgentFn = (
+  request: AgentRequest,
+  onEvent?: (event: AgentEvent) => void
+) => Promise<AgentReply>;
+
+const agentRequestSchema = z.object({
+  message: z.string(),
+  sessionId: z.string().optional(),
+  correlationId: z.string().optional(),
+});
+
+// Authenticated requests name their correlation ID inside the signed
+// payload, so the agent runs under it rather than the request's own
+function runUnderRequestCorrelation(
+  runAgent: AgentFn,
+  onEvent?: (event: AgentEvent) => void
+) {
+  return (request: AgentRequest) =>
+    request.correlationId
+      ? withCorrelationId(request.correlationId, () =>
+          runAgent(request, onEvent)
+        )
+      : runAgent(request, onEvent);
+}
 
 interface ServeAgentConfig {
   runAgent: AgentFn;
   port: number;
   decodeJwt?: boolean;
+  routes?: Hono;
 }
 
 interface ServeAuthedAgentConfig extends ServeAgentConfig {
-  agent: AckLabAgent;
+  agent: AckLabClient;
+  // Built on every request so it reflects the current catalogue
+  agentCard?: () => AgentCard;
 }
 
 function decodeJwtPayload(jwt: string): object | null {
@@ -34,6 +81,22 @@ function decodeJwtPayload(jwt: string): object | null {
   }
 }
 
+const callerContext = new AsyncLocalStorage<string>();
+
+/**
+ * The DID that signed the authenticated request being handled. The agent
+ * only runs once the request handler has verified that signature, so from
+ * inside the agent this is always a verified caller.
+ */
+export function getRequestCaller(): string | undefined {
+  return callerContext.getStore();
+}
+
+function withRequestCaller<T>(jwt: string, fn: () => T): T {
+  const { iss } = (decodeJwtPayload(jwt) ?? {}) as { iss?: string };
+  return iss ? callerContext.run(iss, fn) : fn();
+}
+
 function logJwtIfEnabled(
   jwt: string,
   type: "incoming" | "outgoing",
@@ -79,13 +142,16 @@ function createAgentHtml(
         <p>Send requests to <code>/chat</code> with a JSON payload containing your message:</p>
         <pre style="background: #f8f9fa; padding: 1rem; border-radius: 4px; overflow-x: auto;">
 {
-  "message": "Hello, agent!"
+  "message": "Hello, agent!",
+  "sessionId": "optional-session-id"
 }</pre>
         <p>The agent will process your message and return a response in the following format:</p>
         <pre style="background: #f8f9fa; padding: 1rem; border-radius: 4px; overflow-x: auto;">
 {
-  "text": "Agent response here"
+  "text": "Agent response here",
+  "sessionId": "session-id"
 }</pre>
+        <p>Pass the returned <code>sessionId</code> with your next message to continue the same conversation.</p>
     </div>`;
 
   const endpointDescription = isAuthenticated
@@ -170,6 +236,17 @@ function createAgentHtml(
         <div class="endpoint">
             <strong>POST /chat</strong> - ${endpointDescription}
         </div>
+        <div class="endpoint">
+            <strong>POST /chat/stream</strong> - The same request, answered as Server-Sent Events
+        </div>
+        ${
+          isAuthenticated
+            ? `<div class="endpoint">
+            <strong>GET /.well-known/agent.json</strong> - Agent card describing this agent, its payment methods and catalogue
+        </div>`
+            : ""
+        }
+        <p>The stream emits <code>text-delta</code>, <code>tool-call</code>, <code>tool-result</code> and <code>tool-error</code> events as the agent works, then a final <code>done</code> event with the usual response, or an <code>error</code> event.</p>
         <p>${description}</p>
     </div>
 
@@ -192,27 +269,76 @@ function createAgentHtml(
 </html>`;
 }
 
+/**
+ * Logs each request and runs it under a correlation ID, taken from the
+ * `X-Correlation-Id` header when the caller sends one. The ID is echoed
+ * back in the same header.
+ */
 function createRequestLogger() {
-  return async (
-    c: { req: { method: string; path: string }; res: { status: number } },
-    next: () => Promise<void>
-  ) => {
-    const start = Date.now();
-    await next();
-    const time = Date.now() - start;
-    logger.http(c.req.method, c.req.path, c.res.status, `${time}ms`);
+  return async (c: Context, next: () => Promise<void>) => {
+    const correlationId =
+      c.req.header("X-Correlation-Id") || createCorrelationId();
+
+    c.header("X-Correlation-Id", correlationId);
+    await withCorrelationId(correlationId, async () => {
+      const start = Date.now();
+      await next();
+      const time = Date.now() - start;
+      logger.http(c.req.method, c.req.path, c.res.status, `${time}ms`);
+    });
   };
 }
 
+/**
+ * Runs an agent and streams its events as Server-Sent Events. The stream
+ * ends with a `done` event carrying what `/chat` would have returned, or
+ * an `error` event if the agent failed.
+ */
+function streamAgentEvents(
+  c: Context,
+  run: (onEvent: (event: AgentEvent) => void) => Promise<unknown>
+) {
+  return streamSSE(c, async (stream) => {
+    // Events arrive synchronously from the agent, so queue the writes to
+    // keep them in order
+    let writes = Promise.resolve();
+    const onEvent = (event: AgentEvent) => {
+      writes = writes.then(() =>
+        stream.writeSSE({ event: event.type, data: JSON.stringify(event) })
+      );
+    };
+
+    try {
+      const reply = await run(onEvent);
+      await writes;
+      await stream.writeSSE({ event: "done", data: JSON.stringify(reply) });
+    } catch (error) {
+      await writes;
+      logger.error("Failed to stream agent response", error);
+      await stream.writeSSE({
+        event: "error",
+        data: JSON.stringify({
+          message: error instanceof Error ? error.message : "Unknown error",
+        }),
+      });
+    }
+  });
+}
+
 export function serveAuthedAgent({
   port,
   runAgent,
   agent,
   decodeJwt = DECODE_JWT,
+  routes,
+  agentCard,
 }: ServeAuthedAgentConfig) {
   logger.info("Starting authenticated agent server...");
 
-  const agentHandler = agent.createRequestHandler(z.string(), runAgent);
+  const agentHandler = agent.createRequestHandler(
+    agentRequestSchema,
+    runUnderRequestCorrelation(runAgent)
+  );
   const app = new Hono();
 
   app.use("*", createRequestLogger());
@@ -221,6 +347,10 @@ export function serveAuthedAgent({
     return c.html(createAgentHtml("Authenticated Agent Server", port, true));
   });
 
+  if (agentCard) {
+    app.get("/.well-known/agent.json", (c) => c.json(agentCard()));
+  }
+
   app.post(
     "/chat",
     vValidator("json", v.object({ jwt: jwtStringSchema })),
@@ -230,7 +360,7 @@ export function serveAuthedAgent({
       logJwtIfEnabled(jwt, "incoming", decodeJwt);
 
       try {
-        const result = await agentHandler(jwt);
+        const result = await withRequestCaller(jwt, () => agentHandler(jwt));
 
         if (result?.jwt) {
           logJwtIfEnabled(result.jwt, "outgoing", decodeJwt);
@@ -244,13 +374,38 @@ export function serveAuthedAgent({
     }
   );
 
-  serve({ fetch: app.fetch, port });
+  app.post(
+    "/chat/stream",
+    vValidator("json", v.object({ jwt: jwtStringSchema })),
+    (c) => {
+      const { jwt } = c.req.valid("json");
+
+      logJwtIfEnabled(jwt, "incoming", decodeJwt);
+
+      return streamAgentEvents(c, async (onEvent) => {
+        const streamHandler = agent.createRequestHandler(
+          agentRequestSchema,
+          runUnderRequestCorrelation(runAgent, onEvent)
+        );
+        const result = await withRequestCaller(jwt, () => streamHandler(jwt));
+        logJwtIfEnabled(result.jwt, "outgoing", decodeJwt);
+        return result;
+      });
+    }
+  );
+
+  if (routes) {
+    app.route("/", routes);
+  }
+
+  return serve({ fetch: app.fetch, port });
 }
 
 export function serveAgent({
   port,
   runAgent,
   decodeJwt = DECODE_JWT,
+  routes,
 }: ServeAgentConfig) {
   logger.info("Starting simple agent server...");
 
@@ -262,34 +417,55 @@ export function serveAgent({
     return c.html(createAgentHtml("Simple Agent Server", port, false));
   });
 
-  app.post(
-    "/chat",
-    vValidator("json", v.object({ message: v.string() })),
-    async (c) => {
-      const { message } = c.req.valid("json");
-
-      logger.incoming("Message", message);
-
-      if (decodeJwt) {
-        const jwtTokens = findJwtTokensInMessage(message);
-        jwtTokens.forEach((token, index) => {
-          const payload = decodeJwtPayload(token);
-          if (payload) {
-            logger.debug(`JWT token #${index + 1} in message`, payload);
-          }
-        });
-      }
+  const logIncomingMessage = (message: string) => {
+    logger.incoming("Message", message);
 
-      try {
-        const text = await runAgent(message);
-        logger.outgoing("Response", text);
-        return c.json({ text });
-      } catch (error) {
-        logger.error("Failed to process message", error);
-        throw error;
-      }
+    if (decodeJwt) {
+      const jwtTokens = findJwtTokensInMessage(message);
+      jwtTokens.forEach((token, index) => {
+        const payload = decodeJwtPayload(token);
+        if (payload) {
+          logger.debug(`JWT token #${index + 1} in message`, payload);
+        }
+      });
     }
+  };
+
+  const messageValidator = vValidator(
+    "json",
+    v.object({ message: v.string(), sessionId: v.optional(v.string()) })
   );
 
-  serve({ fetch: app.fetch, port });
+  app.post("/chat", messageValidator, async (c) => {
+    const { message, sessionId } = c.req.valid("json");
+
+    logIncomingMessage(message);
+
+    try {
+      const reply = await runAgent({ message, sessionId });
+      logger.outgoing("Response", reply.text);
+      return c.json(reply);
+    } catch (error) {
+      logger.error("Failed to process message", error);
+      throw error;
+    }
+  });
+
+  app.post("/chat/stream", messageValidator, (c) => {
+    const { message, sessionId } = c.req.valid("json");
+
+    logIncomingMessage(message);
+
+    return streamAgentEvents(c, async (onEvent) => {
+      const reply = await runAgent({ message, sessionId }, onEvent);
+      logger.outgoing("Response", reply.text);
+      return reply;
+    });
+  });
+
+  if (routes) {
+    app.route("/", routes);
+  }
+
+  return serve({ fetch: app.fetch, port });
 }
@@ -111,7 +111,25 @@ echo ""
 print_color "$BLUE" "🔧 Checking required credentials..."
 
 # Required environment variables
-REQUIRED_VARS=("ANTHROPIC_API_KEY" "ACK_LAB_CLIENT_ID" "ACK_LAB_CLIENT_SECRET" "AGENT_ID_MARKETPLACE_BUYER" "AGENT_ID_MARKETPLACE_SELLER")
+if [ "$ACK_LAB_MODE" = "mock" ]; then
+    # The mock ACK-Lab API needs no credentials
+    print_color "$YELLOW" "🧪 ACK_LAB_MODE=mock: payments are simulated locally"
+    REQUIRED_VARS=()
+else
+    REQUIRED_VARS=("ACK_LAB_CLIENT_ID" "ACK_LAB_CLIENT_SECRET" "AGENT_ID_MARKETPLACE_BUYER" "AGENT_ID_MARKETPLACE_SELLER")
+fi
+
+# Each agent can use its own model provider, falling back to MODEL_PROVIDER
+BUYER_PROVIDER="${BUYER_MODEL_PROVIDER:-${MODEL_PROVIDER:-anthropic}}"
+SELLER_PROVIDER="${SELLER_MODEL_PROVIDER:-${MODEL_PROVIDER:-anthropic}}"
+
+if [ "$BUYER_PROVIDER" = "scripted" ] || [ "$SELLER_PROVIDER" = "scripted" ]; then
+    # Scripted models replay a fixture instead of calling an LLM
+    print_color "$YELLOW" "🧪 Scripted models replay ${SCRIPTED_MODEL_FIXTURE:-fixtures/scripted-purchase.json}"
+fi
+if [ "$BUYER_PROVIDER" = "anthropic" ] || [ "$SELLER_PROVIDER" = "anthropic" ]; then
+    REQUIRED_VARS=("ANTHROPIC_API_KEY" "${REQUIRED_VARS[@]}")
+fi
 OPTIONAL_VARS=("BUYER_BUDGET")
 MISSING_VARS=()
 
@@ -0,0 +1,122 @@
+import type { DataResource, SubscriptionGrant } from "./data-models";
+
+const SUBSCRIPTION_ID_PREFIX = "subscription:";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createSubscriptionId(resourceId: string): string {
+  return SUBSCRIPTION_ID_PREFIX + resourceId;
+}
+
+export function parseSubscriptionId(offerId: string): string | undefined {
+  return offerId.startsWith(SUBSCRIPTION_ID_PREFIX)
+    ? offerId.slice(SUBSCRIPTION_ID_PREFIX.length)
+    : undefined;
+}
+
+/**
+ * Describes one period of a resource's subscription as a resource of its
+ * own, priced at the period prices, so it can be negotiated and invoiced
+ * like any purchase. Resources without a subscription offer have none,
+ * and neither do resources licensed by intended use, whose prices depend
+ * on the license.
+ */
+export function createSubscriptionOffer(
+  resource: DataResource
+): DataResource | undefined {
+  const { subscription, ...rest } = resource;
+  if (!subscription || resource.licenses) return undefined;
+
+  return {
+    ...rest,
+    id: createSubscriptionId(resource.id),
+    name: `${resource.name} (${subscription.periodDays}-day subscription)`,
+    listPrice: subscription.listPrice,
+    minimumPrice: subscription.minimumPrice,
+  };
+}
+
+interface GrantPeriod {
+  resourceId: string;
+  buyer: string;
+  periodDays: number;
+  paymentRequestId: string;
+  now?: number;
+}
+
+/**
+ * Starts a grant for one period, or extends an existing grant by one
+ * period from its current end. A grant that has already lapsed, or was
+ * revoked while a renewal was being paid for, restarts from now.
+ */
+export function extendGrant(
+  grant: SubscriptionGrant | undefined,
+  {
+    resourceId,
+    buyer,
+    periodDays,
+    paymentRequestId,
+    now = Date.now(),
+  }: GrantPeriod
+): SubscriptionGrant {
+  const periodStart = Math.max(now, grant ? Date.parse(grant.renewsAt) : now);
+  const renewsAt = new Date(periodStart + periodDays * DAY_MS).toISOString();
+
+  if (!grant) {
+    return {
+      resourceId,
+      buyer,
+      periodDays,
+      startedAt: new Date(now).toISOString(),
+      renewsAt,
+      renewals: 0,
+      paymentRequestIds: [paymentRequestId],
+    };
+  }
+
+  return {
+    ...grant,
+    periodDays,
+    renewsAt,
+    renewals: grant.renewals + 1,
+    paymentRequestIds: [...grant.paymentRequestIds, paymentRequestId],
+    revokedAt: undefined,
+  };
+}
+
+/**
+ * Takes back the period a refunded payment bought: the grant ends one
+ * period earlier, but not before now. A grant with no paid period left is
+ * revoked and can no longer be renewed.
+ */
+export function refundGrantPeriod(
+  grant: SubscriptionGrant,
+  paymentRequestId: string,
+  now = Date.now()
+): SubscriptionGrant {
+  if (!grant.paymentRequestIds.includes(paymentRequestId)) return grant;
+
+  const paymentRequestIds = grant.paymentRequestIds.filter(
+    (id) => id !== paymentRequestId
+  );
+  const renewsAt = Math.max(
+    now,
+    Date.parse(grant.renewsAt) - grant.periodDays * DAY_MS
+  );
+
+  return {
+    ...grant,
+    renewsAt: new Date(renewsAt).toISOString(),
+    paymentRequestIds,
+    revokedAt:
+      paymentRequestIds.length === 0
+        ? new Date(now).toISOString()
+        : grant.revokedAt,
+  };
+}
+
+export function isGrantActive(
+  grant: SubscriptionGrant,
+  now = Date.now()
+): boolean {
+  return !grant.revokedAt && Date.parse(grant.renewsAt) > now;
+}
@@ -0,0 +1,1006 @@
+import assert from "node:assert/strict";
+import { copyFile, mkdtemp, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  createDidKeyUri,
+  createJwt,
+  createJwtSigner,
+  curveToJwtAlgorithm,
+  generateKeypair,
+} from "agentcommercekit";
+import { createAccessToken } from "../access-tokens";
+import type { AgentCard } from "../agent-card";
+import type { DataResource, Dispute } from "../data-models";
+import { decodeJwtPayload } from "../receipts";
+
+// The servers read their configuration when the module loads, so the
+// environment has to be in place before it is imported. Everything runs
+// locally: payments go through the mock ACK-Lab API and both agents
+// replay a scripted fixture instead of calling an LLM. The admin tests
+// edit the catalogue, so the servers work on a copy of it.
+const catalogueCopy = join(
+  await mkdtemp(join(tmpdir(), "marketplace-e2e-")),
+  "catalogue.json"
+);
+await copyFile("catalogue.json", catalogueCopy);
+
+Object.assign(process.env, {
+  CATALOGUE_PATH: catalogueCopy,
+  SELLERS_CONFIG: "tests/fixtures/competing-sellers.json",
+  ACK_LAB_MODE: "mock",
+  ACK_LAB_BASE_URL: "http://localhost:17580",
+  MODEL_PROVIDER: "scripted",
+  SCRIPTED_MODEL_FIXTURE: "tests/fixtures/marketplace-script.json",
+  BUYER_PORT: "17576",
+  SELLER_PORT: "17577",
+  MARKETPLACE_STORE: "memory",
+  BUYER_BUDGET: "100",
+  BUYER_MAX_PER_PURCHASE: "20",
+  BUNDLE_DISCOUNTS: "2:0.1",
+  ACCESS_TOKEN_SECRET: "e2e-test-secret",
+  ADMIN_API_TOKEN: "e2e-admin-token",
+  SELLER_PUBLIC_URL: "",
+  TRUSTED_PAYMENT_REQUEST_ISSUERS: "",
+  EXPECTED_SELLER_PAYEES: "",
+});
+
+const {
+  startAgentServers,
+  dataCatalogue,
+  negotiationStore,
+  buyerLedger,
+  sellers,
+} = await import("../data-negotiation-agents-server");
+
+const HOUSING_PAYMENT_REQUEST_ID = "housing_inventory_2024-e2e-housing";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The scripted buyer ends each turn by relaying the seller's last tool
+// result, so the reply text is that result as JSON
+async function chatWithBuyer(message: string, sessionId?: string) {
+  const response = await fetch("http://localhost:17576/chat", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message, sessionId }),
+  });
+  assert.equal(response.status, 200);
+
+  const reply = (await response.json()) as { text: string; sessionId: string };
+  return { result: JSON.parse(reply.text), sessionId: reply.sessionId };
+}
+
+// The admin routes are not typed end to end, so each caller names the body
+// it expects
+async function callAdmin<T = unknown>(path: string, init: RequestInit = {}) {
+  const response = await fetch(`http://localhost:17577/admin${path}`, {
+    ...init,
+    headers: {
+      Authorization: "Bearer e2e-admin-token",
+      "Content-Type": "application/json",
+    },
+  });
+  return { status: response.status, body: (await response.json()) as T };
+}
+
+// Another buyer talking to the main seller directly, signing its request
+// with a key of its own
+async function chatWithSellerAsAnotherBuyer(message: string) {
+  const keypair = await generateKeypair("secp256k1");
+  const jwt = await createJwt(
+    { data: { message } },
+    { issuer: createDidKeyUri(keypair), signer: createJwtSigner(keypair) },
+    { alg: curveToJwtAlgorithm(keypair.curve) }
+  );
+  const response = await fetch("http://localhost:17577/chat", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jwt }),
+  });
+  assert.equal(response.status, 200);
+
+  const reply = (await response.json()) as { jwt: string };
+  const { data } = decodeJwtPayload(reply.jwt) as { data: { text: string } };
+  return JSON.parse(data.text);
+}
+
+async function streamFromBuyer(message: string) {
+  const response = await fetch("http://localhost:17576/chat/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message }),
+  });
+  assert.equal(response.status, 200);
+  assert.match(
+    response.headers.get("content-type") ?? "",
+    /text\/event-stream/
+  );
+
+  return (await response.text())
+    .split("\n\n")
+    .filter(Boolean)
+    .map((raw) => {
+      const event = raw.match(/^event: (.*)$/m)?.[1];
+      const data = raw.match(/^data: (.*)$/m)?.[1] ?? "null";
+      return { event, data: JSON.parse(data) };
+    });
+}
+
+describe("data marketplace end to end", () => {
+  let servers: ReturnType<typeof startAgentServers>;
+
+  before(() => {
+    servers = startAgentServers();
+  });
+
+  after(async () => {
+    await servers.close();
+    for (const seller of sellers) seller.dataCatalogue.close();
+  });
+
+  it("negotiates, pays for and delivers a dataset", async () => {
+    const { result } = await chatWithBuyer("Please buy the housing dataset");
+
+    assert.equal(result.success, true);
+    assert.equal(result.resource.name, "US Housing Market Inventory 2024");
+
+    assert.equal(
+      (await negotiationStore.getNegotiation("e2e-housing"))?.state,
+      "delivered"
+    );
+    const transaction = await negotiationStore.getTransaction(
+      HOUSING_PAYMENT_REQUEST_ID
+    );
+    assert.equal(transaction?.resourceId, "housing_inventory_2024");
+    assert.equal(transaction?.finalPrice, 8);
+    assert.match(transaction?.buyer ?? "", /^did:key:/);
+
+    const budget = buyerLedger.getSummary();
+    assert.equal(budget.spent, 8);
+    assert.equal(budget.remaining, budget.budget - 8);
+
+    const download = await fetch(result.downloadUrl);
+    assert.equal(download.status, 200);
+    assert.equal(
+      await download.text(),
+      await readFile("data/housing_inventory_2024.csv", "utf8")
+    );
+  });
+
+  it("refuses tampered, expired and misdirected access tokens", async () => {
+    const transaction = await negotiationStore.getTransaction(
+      HOUSING_PAYMENT_REQUEST_ID
+    );
+    assert.ok(transaction, "the purchase should have been delivered");
+    const claims = {
+      resourceId: "housing_inventory_2024",
+      buyer: transaction.buyer,
+      paymentRequestId: HOUSING_PAYMENT_REQUEST_ID,
+      expiresAt: Date.now() + DAY_MS,
+    };
+    const download = (resourceId: string, token?: string) =>
+      fetch(
+        `http://localhost:17577/download/${resourceId}` +
+          (token === undefined ? "" : `?token=${token}`)
+      );
+
+    assert.equal((await download("housing_inventory_2024")).status, 401);
+
+    const token = createAccessToken(claims, "e2e-test-secret");
+    assert.equal((await download("housing_inventory_2024", token)).status, 200);
+
+    const [payload, signature] = token.split(".");
+    const tampered = `${payload}.${signature.slice(0, -1)}${
+      signature.endsWith("A") ? "B" : "A"
+    }`;
+    assert.equal(
+      (await download("housing_inventory_2024", tampered)).status,
+      403
+    );
+
+    const forged = createAccessToken(claims, "not-the-secret");
+    assert.equal(
+      (await download("housing_inventory_2024", forged)).status,
+      403
+    );
+
+    const expired = createAccessToken(
+      { ...claims, expiresAt: Date.now() - 1000 },
+      "e2e-test-secret"
+    );
+    assert.equal(
+      (await download("housing_inventory_2024", expired)).status,
+      403
+    );
+
+    // A token only opens the resource it was issued for, and only one the
+    // purchase covered
+    assert.equal((await download("spy_ticker_365d", token)).status, 403);
+    const unpurchased = createAccessToken(
+      { ...claims, resourceId: "spy_ticker_365d" },
+      "e2e-test-secret"
+    );
+    assert.equal((await download("spy_ticker_365d", unpurchased)).status, 403);
+  });
+
+  it("refuses to redeem the same receipt twice", async () => {
+    const [payment] = buyerLedger.getSummary().payments;
+    assert.ok(payment, "the purchase should have recorded a payment");
+
+    const { result } = await chatWithBuyer(
+      `Please redeem this receipt again: <receipt_url>${payment.receiptUrl}</receipt_url>`
+    );
+
+    assert.deepEqual(result, {
+      error: "This transaction has already been completed",
+    });
+  });
+
+  it("keeps an audit trail of the whole negotiation", async () => {
+    const unauthorized = await fetch(
+      "http://localhost:17577/audit/e2e-housing"
+    );
+    assert.equal(unauthorized.status, 401);
+
+    const response = await fetch(
+      "http://localhost:17577/audit/e2e-housing?download=true",
+      { headers: { Authorization: "Bearer e2e-admin-token" } }
+    );
+    assert.equal(response.status, 200);
+    assert.match(
+      response.headers.get("content-disposition") ?? "",
+      /attachment; filename="audit-e2e-housing.json"/
+    );
+
+    const { events } = (await response.json()) as {
+      events: { sequence: number; type: string }[];
+    };
+    const types = events.map((e) => e.type);
+
+    assert.deepEqual(
+      events.map((e) => e.sequence),
+      events.map((_, index) => index + 1)
+    );
+    for (const type of [
+      "message-received",
+      "tool-call",
+      "offer",
+      "counter-offer",
+      "offer-accepted",
+      "payment-request-created",
+      "receipt-verified",
+      "delivered",
+      "receipt-rejected",
+      "message-sent",
+    ]) {
+      assert.ok(types.includes(type), `missing ${type} event`);
+    }
+    assert.ok(
+      types.indexOf("counter-offer") < types.indexOf("offer-accepted") &&
+        types.indexOf("offer-accepted") < types.indexOf("delivered")
+    );
+    assert.doesNotMatch(JSON.stringify(events), /token=(?!\[redacted\])/);
+  });
+
+  it("closes a negotiation that runs out of rounds", async () => {
+    const { result } = await chatWithBuyer("Please lowball the SPY dataset");
+
+    assert.equal(result.accepted, false);
+    assert.equal(result.closed, true);
+
+    const negotiation =
+      await negotiationStore.getNegotiation("e2e-spy-lowball");
+    assert.equal(negotiation?.state, "closed");
+    assert.equal(negotiation?.agreedPrice, undefined);
+  });
+
+  it("reports unknown resource IDs", async () => {
+    const { result } = await chatWithBuyer("Please ask for an unknown dataset");
+
+    assert.deepEqual(result, { error: "Resource not found" });
+    assert.equal(
+      await negotiationStore.getNegotiation("e2e-unknown"),
+      undefined
+    );
+  });
+
+  it("keeps the conversation history within a session", async () => {
+    const first = await chatWithBuyer("Please ask for an unknown dataset");
+
+    // This turn makes no tool calls, so it can only repeat the seller's
+    // reply if the previous turn is still in the session's history
+    const second = await chatWithBuyer(
+      "Please repeat the last seller reply",
+      first.sessionId
+    );
+
+    assert.equal(second.sessionId, first.sessionId);
+    assert.deepEqual(second.result, { error: "Resource not found" });
+  });
+
+  it("starts a new session for an unknown session ID", async () => {
+    const { sessionId } = await chatWithBuyer(
+      "Please ask for an unknown dataset",
+      "not-a-real-session"
+    );
+
+    assert.notEqual(sessionId, "not-a-real-session");
+  });
+
+  it("streams tool calls, results and text before the final reply", async () => {
+    const events = await streamFromBuyer("Please ask for an unknown dataset");
+
+    assert.deepEqual(
+      events.map((e) => e.event),
+      ["tool-call", "tool-result", "text-delta", "done"]
+    );
+    assert.equal(events[0].data.toolName, "callSeller");
+    assert.match(events[1].data.output, /Resource not found/);
+
+    const done = events[events.length - 1].data;
+    assert.deepEqual(JSON.parse(done.text), { error: "Resource not found" });
+    assert.ok(done.sessionId);
+  });
+
+  it("echoes the caller's correlation ID", async () => {
+    const response = await fetch("http://localhost:17576/chat", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Correlation-Id": "e2e-correlation",
+      },
+      body: JSON.stringify({ message: "Please ask for an unknown dataset" }),
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("x-correlation-id"), "e2e-correlation");
+  });
+
+  it("publishes an agent card with the catalogue and payment methods", async () => {
+    const response = await fetch(
+      "http://localhost:17577/.well-known/agent.json"
+    );
+    assert.equal(response.status, 200);
+
+    const card = (await response.json()) as AgentCard;
+    assert.equal(card.endpoints.chat, "http://localhost:17577/chat");
+    assert.equal(card.authentication.type, "ack-lab-jwt");
+    assert.match(card.identity.did ?? "", /^did:key:/);
+    assert.equal(card.payment.methods[0].type, "ack-lab-payment-request");
+    assert.equal(
+      card.catalogue.resourceCount,
+      dataCatalogue.getResources().length
+    );
+
+    const housing = card.catalogue.resources.find(
+      (r) => r.id === "housing_inventory_2024"
+    );
+    assert.equal(housing?.listPrice, 10);
+    assert.equal(housing?.negotiable, true);
+    assert.deepEqual(card.catalogue.bundleDiscounts, [
+      { minItems: 2, discount: 0.1 },
+    ]);
+    assert.doesNotMatch(JSON.stringify(card), /minimumPrice|pricingStrategy/);
+  });
+
+  it("refuses to invoice a price that was never negotiated", async () => {
+    const { result } = await chatWithBuyer(
+      "Please invoice without negotiating"
+    );
+
+    assert.equal(result.error, "Payment request refused");
+    assert.deepEqual(
+      result.reasons.map((reason: { code: string }) => reason.code),
+      ["negotiation_not_found"]
+    );
+  });
+
+  it("compares offers across competing sellers", async () => {
+    const { result } = await chatWithBuyer(
+      "Please compare sellers for housing"
+    );
+
+    assert.deepEqual(
+      result.offers.map((offer: { seller: string; listPrice: number }) => [
+        offer.seller,
+        offer.listPrice,
+      ]),
+      [
+        ["Budget Data Co", 9],
+        ["Marketplace Seller", 10],
+      ]
+    );
+    assert.equal(result.bestOffer.seller, "Budget Data Co");
+    assert.deepEqual(result.unavailableSellers, []);
+  });
+
+  it("negotiates with the seller the buyer picks", async () => {
+    const { result } = await chatWithBuyer(
+      "Please haggle with the budget seller"
+    );
+    assert.equal(result.accepted, false);
+
+    const budgetSeller = sellers.find((s) => s.name === "Budget Data Co");
+    const negotiation =
+      await budgetSeller?.negotiationStore.getNegotiation("e2e-housing");
+    assert.equal(negotiation?.currentOffer, 6);
+    assert.equal(negotiation?.resource.listPrice, 9);
+    // The main seller's delivered negotiation with the same ID is untouched
+    assert.equal(
+      (await negotiationStore.getNegotiation("e2e-housing"))?.state,
+      "delivered"
+    );
+  });
+
+  it("only pays a payment request to the seller that sent it", async () => {
+    const { result } = await chatWithBuyer(
+      "Please pay a payment request no seller sent: <payment_request_url>http://localhost:17580/payment-requests/forged</payment_request_url>"
+    );
+
+    assert.deepEqual(result, {
+      success: false,
+      error:
+        "This payment request URL was not sent by a seller in this conversation",
+    });
+    assert.equal(buyerLedger.getSummary().reserved, 0);
+  });
+
+  it("pays a seller whose agent card publishes no DID", async () => {
+    const card = (await fetch(
+      "http://localhost:17578/.well-known/agent.json"
+    ).then((res) => res.json())) as AgentCard;
+    assert.equal(card.identity.did, undefined);
+
+    const { result } = await chatWithBuyer(
+      "Please buy housing from the budget seller"
+    );
+
+    assert.equal(result.success, true);
+    const budgetSeller = sellers.find((s) => s.name === "Budget Data Co");
+    assert.equal(
+      (await budgetSeller?.negotiationStore.getNegotiation("e2e-budget"))
+        ?.state,
+      "delivered"
+    );
+    const balances = (await fetch("http://localhost:17580/balances").then(
+      (res) => res.json()
+    )) as Record<string, number>;
+    assert.equal(balances["budget-data-co-agent"], 9);
+  });
+
+  it("sells a discounted bundle for a single payment", async () => {
+    const spentBefore = buyerLedger.getSummary().spent;
+    const { result } = await chatWithBuyer(
+      "Please buy the housing and SPY bundle"
+    );
+
+    const bundleId = "bundle:housing_inventory_2024+spy_ticker_365d";
+    const transaction = await negotiationStore.getTransaction(
+      `${bundleId}-e2e-bundle`
+    );
+    assert.equal(transaction?.resourceId, bundleId);
+    assert.deepEqual(transaction?.resourceIds, [
+      "housing_inventory_2024",
+      "spy_ticker_365d",
+    ]);
+    // $22 of list prices less the 10% bundle discount, rounded
+    assert.equal(transaction?.listPrice, 20);
+    assert.equal(transaction?.finalPrice, 18);
+    assert.equal(buyerLedger.getSummary().spent, spentBefore + 18);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(
+      result.downloads.map((d: { resourceId: string }) => d.resourceId),
+      ["housing_inventory_2024", "spy_ticker_365d"]
+    );
+    for (const { resourceId, downloadUrl } of result.downloads) {
+      const download = await fetch(downloadUrl);
+      assert.equal(download.status, 200);
+      assert.equal(
+        await download.text(),
+        await readFile(`data/${resourceId}.csv`, "utf8")
+      );
+    }
+
+    // Each grant only opens the resource it was issued for
+    const [housing, spy] = result.downloads;
+    const swapped = await fetch(
+      housing.downloadUrl.replace(housing.resourceId, spy.resourceId)
+    );
+    assert.equal(swapped.status, 403);
+  });
+
+  it("sells a subscription and extends it on renewal", async () => {
+    const { result } = await chatWithBuyer("Please subscribe to the SPY feed");
+
+    assert.equal(result.success, true);
+    const { grantId, renewsAt, renewals } = result.subscription;
+    assert.equal(grantId, "subscription:spy_ticker_365d-e2e-spy-subscription");
+    assert.equal(renewals, 0);
+    assert.equal(result.accessDetails.validUntil, renewsAt);
+    assert.ok(
+      Math.abs(Date.parse(renewsAt) - Date.now() - 30 * DAY_MS) < DAY_MS
+    );
+
+    const download = await fetch(result.downloadUrl);
+    assert.equal(download.status, 200);
+    assert.equal(
+      await download.text(),
+      await readFile("data/spy_ticker_365d.csv", "utf8")
+    );
+
+    const renewal = await chatWithBuyer(
+      `Please renew the SPY subscription <grant_id>${grantId}</grant_id>`
+    );
+
+    // Renewing early adds a period to the current end date
+    assert.equal(renewal.result.subscription.grantId, grantId);
+    assert.equal(renewal.result.subscription.renewals, 1);
+    assert.equal(
+      Date.parse(renewal.result.subscription.renewsAt) - Date.parse(renewsAt),
+      30 * DAY_MS
+    );
+    const transaction = await negotiationStore.getTransaction(
+      "subscription:spy_ticker_365d-e2e-spy-renewal"
+    );
+    assert.equal(transaction?.grantId, grantId);
+    assert.equal(transaction?.finalPrice, 4);
+
+    const { body } = await callAdmin<{
+      subscriptions: { grantId: string; renewals: number; active: boolean }[];
+    }>("/subscriptions");
+    assert.deepEqual(
+      body.subscriptions.map((s) => [s.grantId, s.renewals, s.active]),
+      [[grantId, 1, true]]
+    );
+  });
+
+  it("prices and licenses a resource by intended use", async () => {
+    const undeclared = await chatWithBuyer(
+      "Please ask for the LLM paper without a use"
+    );
+    assert.match(
+      undeclared.result.error,
+      /Declare one of: academic, commercial/
+    );
+
+    const { result } = await chatWithBuyer(
+      "Please buy the LLM paper for academic use"
+    );
+
+    assert.equal(result.success, true);
+    assert.equal(result.license.use, "academic");
+    assert.match(result.license.terms, /^Non-commercial research/);
+
+    const transaction = await negotiationStore.getTransaction(
+      "llm_benchmark_paper-e2e-llm-academic"
+    );
+    assert.equal(transaction?.finalPrice, 8);
+    assert.equal(transaction?.license?.use, "academic");
+
+    // The license is stated on the payment request and in the access token
+    const payment = buyerLedger.getSummary().payments.at(-1);
+    assert.match(
+      payment?.description ?? "",
+      /academic license\. Terms: Non-commercial research/
+    );
+    const token = new URL(result.downloadUrl).searchParams.get("token") ?? "";
+    const claims = JSON.parse(
+      Buffer.from(token.split(".")[0], "base64url").toString()
+    );
+    assert.equal(claims.license, "academic");
+  });
+
+  it("requires the admin token for admin routes", async () => {
+    const response = await fetch("http://localhost:17577/admin/catalogue");
+    assert.equal(response.status, 401);
+  });
+
+  it("edits catalogue entries and saves them to the manifest", async () => {
+    const updated = await callAdmin<{ resource: DataResource }>(
+      "/catalogue/llm_benchmark_paper",
+      {
+        method: "PATCH",
+        body: JSON.stringify({ listPrice: 15 }),
+      }
+    );
+    assert.equal(updated.status, 200);
+    assert.equal(updated.body.resource.listPrice, 15);
+    assert.equal(dataCatalogue.findById("llm_benchmark_paper")?.listPrice, 15);
+
+    const manifest = JSON.parse(await readFile(catalogueCopy, "utf8"));
+    assert.equal(
+      manifest.resources.find(
+        (r: { id: string }) => r.id === "llm_benchmark_paper"
+      ).listPrice,
+      15
+    );
+
+    const invalid = await callAdmin("/catalogue/llm_benchmark_paper", {
+      method: "PATCH",
+      body: JSON.stringify({ minimumPrice: 20 }),
+    });
+    assert.equal(invalid.status, 400);
+    assert.equal(dataCatalogue.findById("llm_benchmark_paper")?.listPrice, 15);
+
+    // Licensed resources have no single price to subscribe at
+    const subscribed = await callAdmin("/catalogue/llm_benchmark_paper", {
+      method: "PATCH",
+      body: JSON.stringify({
+        subscription: { periodDays: 30, listPrice: 4, minimumPrice: 3 },
+      }),
+    });
+    assert.equal(subscribed.status, 400);
+    assert.equal(
+      dataCatalogue.findById("llm_benchmark_paper")?.subscription,
+      undefined
+    );
+  });
+
+  it("lists and cancels open negotiations", async () => {
+    const resource = dataCatalogue.findById("spy_ticker_365d")!;
+    await negotiationStore.saveNegotiation("e2e-admin-cancel", {
+      state: "countered",
+      updatedAt: new Date().toISOString(),
+      resource,
+      currentOffer: 9,
+      negotiationRound: 2,
+      quantity: 1,
+      counterOffer: 11,
+    });
+
+    const listNegotiations = () =>
+      callAdmin<{ negotiations: { negotiationId: string; round: number }[] }>(
+        "/negotiations"
+      );
+    const listed = await listNegotiations();
+    assert.deepEqual(
+      listed.body.negotiations.map((n) => [n.negotiationId, n.round]),
+      [["e2e-admin-cancel", 2]]
+    );
+
+    const cancelled = await callAdmin("/negotiations/e2e-admin-cancel/cancel", {
+      method: "POST",
+      body: JSON.stringify({ reason: "Dataset withdrawn" }),
+    });
+    assert.equal(cancelled.status, 200);
+    assert.equal(
+      (await negotiationStore.getNegotiation("e2e-admin-cancel"))?.state,
+      "cancelled"
+    );
+
+    const again = await callAdmin("/negotiations/e2e-admin-cancel/cancel", {
+      method: "POST",
+    });
+    assert.equal(again.status, 409);
+    assert.deepEqual((await listNegotiations()).body.negotiations, []);
+  });
+
+  it("expires stale negotiations and unpaid payment requests", async () => {
+    const resource = dataCatalogue.findById("spy_ticker_365d")!;
+    const hoursAgo = (hours: number) =>
+      new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+    const invoiced = {
+      state: "invoiced" as const,
+      resource,
+      currentOffer: 9,
+      agreedPrice: 9,
+      negotiationRound: 1,
+      quantity: 1,
+    };
+    await negotiationStore.saveNegotiation("e2e-stale-offer", {
+      ...invoiced,
+      state: "countered",
+      updatedAt: hoursAgo(1),
+      agreedPrice: undefined,
+      counterOffer: 11,
+    });
+    await negotiationStore.saveNegotiation("e2e-stale-invoice", {
+      ...invoiced,
+      updatedAt: hoursAgo(2),
+      paymentRequestId: "spy_ticker_365d-e2e-stale-invoice",
+    });
+    await negotiationStore.saveNegotiation("e2e-fresh-invoice", {
+      ...invoiced,
+      updatedAt: hoursAgo(0.5),
+      paymentRequestId: "spy_ticker_365d-e2e-fresh-invoice",
+    });
+
+    const [{ negotiationSweeper, auditTrail }] = sellers;
+    const swept = await negotiationSweeper.sweep();
+    assert.deepEqual(swept.expired.sort(), [
+      "e2e-stale-invoice",
+      "e2e-stale-offer",
+    ]);
+    assert.deepEqual(swept.removed, []);
+    assert.equal(
+      (await negotiationStore.getNegotiation("e2e-fresh-invoice"))?.state,
+      "invoiced"
+    );
+    const [expired] = await auditTrail.getEvents("e2e-stale-invoice");
+    assert.equal(expired.type, "negotiation-expired");
+    assert.equal(expired.details.from, "invoiced");
+
+    // Ended negotiations are kept for a day, then removed
+    const nextDay = Date.now() + 25 * 60 * 60 * 1000;
+    const { removed } = await negotiationSweeper.sweep(nextDay);
+    assert.ok(removed.includes("e2e-stale-offer"));
+    assert.ok(removed.includes("e2e-admin-cancel"));
+    assert.equal(
+      await negotiationStore.getNegotiation("e2e-stale-offer"),
+      undefined
+    );
+  });
+
+  it("refunds a disputed payment once the seller approves it", async () => {
+    const { result } = await chatWithBuyer(
+      "Please buy the housing dataset and dispute it"
+    );
+
+    const paymentRequestId = "housing_inventory_2024-e2e-dispute";
+    assert.equal(result.paymentRequestId, paymentRequestId);
+    assert.equal(result.status, "open");
+    assert.equal(result.amount, 10);
+    assert.equal(result.delivered, true);
+
+    // The seller agent leaves a delivered payment's dispute to staff
+    const { result: refused } = await chatWithBuyer(
+      `Please ask the seller to refund <payment_request_id>${paymentRequestId}</payment_request_id>`
+    );
+    assert.deepEqual(refused, {
+      error:
+        "This payment was delivered, so its dispute is left for the seller's staff",
+    });
+
+    const { body: listed } = await callAdmin<{
+      disputes: { paymentRequestId: string }[];
+    }>("/disputes");
+    assert.deepEqual(
+      listed.disputes.map((d) => d.paymentRequestId),
+      [paymentRequestId]
+    );
+
+    const getBalances = () =>
+      fetch("http://localhost:17580/balances").then(
+        (res) => res.json() as Promise<Record<string, number>>
+      );
+    const before = await getBalances();
+
+    const approvePath = `/disputes/${paymentRequestId}/approve`;
+    const approved = await callAdmin<{ dispute: Dispute }>(approvePath, {
+      method: "POST",
+      body: JSON.stringify({ note: "Wrong file delivered" }),
+    });
+    assert.equal(approved.status, 200);
+    assert.equal(approved.body.dispute.status, "refunded");
+    assert.equal(approved.body.dispute.resolution, "Wrong file delivered");
+
+    const after = await getBalances();
+    assert.equal(after["marketplace-buyer"], before["marketplace-buyer"] + 10);
+    assert.equal(
+      after["marketplace-seller"],
+      before["marketplace-seller"] - 10
+    );
+
+    // A dispute is only ever refunded once
+    const again = await callAdmin(approvePath, { method: "POST" });
+    assert.equal(again.status, 409);
+
+    // The confirmed refund returns to the buyer's budget, once
+    const confirmRefund = () =>
+      chatWithBuyer(
+        `Please confirm this refund: <refund_receipt_url>${approved.body.dispute.refundReceiptUrl}</refund_receipt_url>`
+      );
+    const spentBefore = buyerLedger.getSummary().spent;
+    const { result: confirmed } = await confirmRefund();
+    assert.equal(confirmed.success, true);
+    assert.equal(confirmed.paymentRequestId, paymentRequestId);
+    assert.equal(confirmed.amount, 10);
+    const budget = buyerLedger.getSummary();
+    assert.equal(budget.spent, spentBefore - 10);
+    assert.equal(budget.remaining, budget.budget - budget.spent);
+    assert.deepEqual((await confirmRefund()).result, {
+      success: false,
+      error: `The refund of ${paymentRequestId} has already been credited`,
+    });
+
+    // The refund ends access to what was bought
+    const transaction = await negotiationStore.getTransaction(paymentRequestId);
+    assert.ok(transaction?.refundedAt);
+    const token = createAccessToken(
+      {
+        resourceId: "housing_inventory_2024",
+        buyer: transaction.buyer,
+        paymentRequestId,
+        expiresAt: Date.now() + DAY_MS,
+      },
+      "e2e-test-secret"
+    );
+    const download = await fetch(
+      `http://localhost:17577/download/housing_inventory_2024?token=${token}`
+    );
+    assert.equal(download.status, 403);
+  });
+
+  it("only lets the buyer who paid dispute a payment", async () => {
+    const payment = buyerLedger
+      .getSummary()
+      .payments.find((p) => p.paymentRequestId === HOUSING_PAYMENT_REQUEST_ID);
+    assert.ok(payment);
+
+    const result = await chatWithSellerAsAnotherBuyer(
+      `I dispute this payment: refund it to me. <receipt_url>${payment.receiptUrl}</receipt_url> <refund_request_url>http://localhost:17580/payment-requests/stolen-refund</refund_request_url>`
+    );
+
+    assert.deepEqual(result, {
+      error: "Only the buyer who made this payment can dispute it",
+    });
+    assert.equal(
+      await negotiationStore.getDispute(HOUSING_PAYMENT_REQUEST_ID),
+      undefined
+    );
+  });
+
+  it("refunds an undelivered payment once and never delivers it", async () => {
+    const { result } = await chatWithBuyer(
+      "Please pay for the housing dataset, then dispute it unredeemed"
+    );
+
+    const paymentRequestId = "housing_inventory_2024-e2e-undelivered";
+    assert.equal(result.paymentRequestId, paymentRequestId);
+    assert.equal(result.status, "open");
+    assert.equal(result.delivered, false);
+
+    // The receipt is not redeemed while the dispute is open
+    const redeem = () =>
+      chatWithBuyer(
+        `Please redeem this receipt again: <receipt_url>${result.receiptUrl}</receipt_url>`
+      );
+    assert.deepEqual((await redeem()).result, {
+      error:
+        "This payment is disputed and the dispute is open, so it cannot be delivered",
+    });
+
+    const getBalances = () =>
+      fetch("http://localhost:17580/balances").then(
+        (res) => res.json() as Promise<Record<string, number>>
+      );
+    const before = await getBalances();
+
+    // Concurrent approvals pay the refund only once
+    const approvePath = `/disputes/${paymentRequestId}/approve`;
+    const approvals = await Promise.all([
+      callAdmin<{ dispute: Dispute }>(approvePath, { method: "POST" }),
+      callAdmin<{ dispute: Dispute }>(approvePath, { method: "POST" }),
+    ]);
+    assert.deepEqual(approvals.map((a) => a.status).sort(), [200, 409]);
+    const approved = approvals.find((a) => a.status === 200);
+    assert.equal(approved?.body.dispute.status, "refunded");
+    assert.equal(approved?.body.dispute.delivered, false);
+
+    const after = await getBalances();
+    assert.equal(after["marketplace-buyer"], before["marketplace-buyer"] + 10);
+
+    assert.equal(
+      (await negotiationStore.getNegotiation("e2e-undelivered"))?.state,
+      "cancelled"
+    );
+    assert.deepEqual((await redeem()).result, {
+      error:
+        "This payment is disputed and the dispute is refunded, so it cannot be delivered",
+    });
+    assert.equal(
+      await negotiationStore.getTransaction(paymentRequestId),
+      undefined
+    );
+  });
+
+  it("lets the seller agent refund an undelivered payment", async () => {
+    const { result } = await chatWithBuyer(
+      "Please make a hasty housing purchase, then dispute it"
+    );
+    const paymentRequestId = "housing_inventory_2024-e2e-agent-refund";
+    assert.equal(result.paymentRequestId, paymentRequestId);
+    assert.equal(result.delivered, false);
+
+    const { result: refunded } = await chatWithBuyer(
+      `Please ask the seller to refund <payment_request_id>${paymentRequestId}</payment_request_id>`
+    );
+    assert.equal(refunded.status, "refunded");
+    assert.ok(refunded.refundReceiptUrl);
+    assert.equal(
+      (await negotiationStore.getNegotiation("e2e-agent-refund"))?.state,
+      "cancelled"
+    );
+  });
+
+  it("reports revenue and average discount per resource", async () => {
+    const { body } = await callAdmin<{
+      totalSales: number;
+      totalRevenue: number;
+      resources: unknown[];
+    }>("/reports/revenue");
+
+    assert.equal(body.totalSales, 5);
+    assert.equal(body.totalRevenue, 42);
+    assert.deepEqual(body.resources, [
+      {
+        resourceId: "housing_inventory_2024",
+        name: "US Housing Market Inventory 2024",
+        sales: 1,
+        revenue: 8,
+        averageDiscount: 0.2,
+      },
+      {
+        resourceId: "bundle:housing_inventory_2024+spy_ticker_365d",
+        name: "Bundle: US Housing Market Inventory 2024 + SPY Minute-Level Ticker Data (365 days)",
+        sales: 1,
+        revenue: 18,
+        averageDiscount: 0.1,
+      },
+      {
+        resourceId: "subscription:spy_ticker_365d",
+        name: "SPY Minute-Level Ticker Data (365 days) (subscription)",
+        sales: 2,
+        revenue: 8,
+        averageDiscount: 0,
+      },
+      {
+        resourceId: "llm_benchmark_paper",
+        name: "Comprehensive LLM Benchmarking Study 2024",
+        sales: 1,
+        revenue: 8,
+        averageDiscount: 0,
+      },
+    ]);
+  });
+
+  it("binds the receipt to the invoiced amount and the negotiating buyer", async () => {
+    const { result: payment } = await chatWithBuyer(
+      "Please pay for the SPY dataset and keep the receipt"
+    );
+    assert.equal(payment.success, true);
+
+    const negotiationId = "e2e-receipt-check";
+    const negotiation = await negotiationStore.getNegotiation(negotiationId);
+    assert.ok(negotiation);
+    assert.match(negotiation.buyer ?? "", /^did:key:/);
+
+    // Change the invoice behind the receipt's back, so it no longer pays
+    // for what was agreed with the agent that negotiated
+    await negotiationStore.saveNegotiation(negotiationId, {
+      ...negotiation,
+      agreedPrice: 11,
+      buyer: "did:key:someone-else",
+    });
+    const redeem = () =>
+      chatWithBuyer(
+        `Please redeem this receipt again: <receipt_url>${payment.receiptUrl}</receipt_url>`
+      );
+
+    const { result: rejected } = await redeem();
+    assert.equal(rejected.error, "Receipt rejected");
+    assert.deepEqual(
+      rejected.reasons.map((reason: { code: string }) => reason.code),
+      ["amount_mismatch", "payer_mismatch"]
+    );
+    assert.equal(
+      (await negotiationStore.getNegotiation(negotiationId))?.state,
+      "invoiced"
+    );
+
+    await negotiationStore.saveNegotiation(negotiationId, negotiation);
+    const { result: delivered } = await redeem();
+    assert.equal(delivered.success, true);
+
+    const transaction = await negotiationStore.getTransaction(
+      `spy_ticker_365d-${negotiationId}`
+    );
+    assert.equal(transaction?.finalPrice, 12);
+    assert.equal(transaction?.receipt?.amount, 12);
+    assert.equal(transaction?.receipt?.payer, negotiation.buyer);
+    assert.equal(transaction?.receipt?.receiptUrl, payment.receiptUrl);
+    assert.ok(Date.parse(transaction?.receipt?.expiresAt ?? "") > Date.now());
+  });
+});
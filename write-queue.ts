@@ -0,0 +1,16 @@
+export type WriteQueue = <T>(write: () => Promise<T>) => Promise<T>;
+
+/**
+ * Runs file writes one at a time, in the order they were queued, so
+ * concurrent changes never interleave on disk. A write that fails rejects
+ * its own promise but does not stop the writes queued after it.
+ */
+export function createWriteQueue(): WriteQueue {
+  let pending: Promise<unknown> = Promise.resolve();
+
+  return (write) => {
+    const result = pending.catch(() => {}).then(write);
+    pending = result;
+    return result;
+  };
+}